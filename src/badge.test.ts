@@ -0,0 +1,87 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  formatBadgeMessage,
+  getBadgeColor,
+  measureText,
+  renderBadge,
+} from './badge.ts'
+import { makeUsageData } from './test-utils.ts'
+
+describe('measureText', () => {
+  test('sums the Verdana widths of the characters', () => {
+    expect(measureText('copilot')).toBeCloseTo(36.31, 2)
+    expect(measureText('142/300 (47%)')).toBeCloseTo(86.63, 2)
+  })
+
+  test('tells narrow and wide characters apart', () => {
+    expect(measureText('iiii')).toBeLessThan(measureText('WWWW') / 2)
+  })
+
+  test('scales with the font size and weight', () => {
+    expect(measureText('copilot', { fontSize: 22 })).toBeCloseTo(72.62, 2)
+    expect(measureText('copilot', { bold: true })).toBeGreaterThan(
+      measureText('copilot'),
+    )
+  })
+})
+
+describe('formatBadgeMessage', () => {
+  const data = makeUsageData({ totalUsage: 142 })
+
+  test('shows the usage and its percentage of the limit', () => {
+    expect(formatBadgeMessage(data, 300, 'percentage')).toBe('142/300 (47%)')
+  })
+
+  test('shows the remaining requests', () => {
+    expect(formatBadgeMessage(data, 300, 'remaining')).toBe('158 left')
+    const over = makeUsageData({ totalUsage: 320 })
+    expect(formatBadgeMessage(over, 300, 'remaining')).toBe('0 left')
+  })
+
+  test('shows the end-of-cycle projection', () => {
+    expect(formatBadgeMessage(data, 300, 'projected')).toBe('284/300 projected')
+    const closed = makeUsageData({ totalUsage: 142, closed: true })
+    expect(formatBadgeMessage(closed, 300, 'projected')).toBe(
+      '142/300 projected',
+    )
+  })
+})
+
+describe('getBadgeColor', () => {
+  test('follows the overall usage color', () => {
+    const color = (totalUsage: number) =>
+      getBadgeColor(makeUsageData({ totalUsage }), 300)
+    expect(color(100)).toBe('#4c1')
+    expect(color(200)).toBe('#dfb317')
+    expect(color(250)).toBe('#e05d44')
+  })
+})
+
+describe('renderBadge', () => {
+  const badge = {
+    label: 'copilot',
+    message: '142/300 (47%)',
+    color: '#4c1',
+  }
+
+  test('renders a flat badge', () => {
+    expect(renderBadge({ ...badge, style: 'flat' })).toMatchSnapshot()
+  })
+
+  test('renders a for-the-badge badge', () => {
+    expect(renderBadge({ ...badge, style: 'for-the-badge' })).toMatchSnapshot()
+  })
+
+  test('sizes the badge from the measured text', () => {
+    const svg = renderBadge({ ...badge, style: 'flat' })
+    // 36.31px and 86.63px of text, with 5px of padding on each side
+    expect(svg).toContain('width="143" height="20"')
+    expect(svg).toContain('<rect width="46" height="20" fill="#555"/>')
+  })
+
+  test('escapes the label', () => {
+    const svg = renderBadge({ ...badge, label: 'a<b', style: 'flat' })
+    expect(svg).toContain('a&lt;b')
+    expect(svg).not.toContain('a<b')
+  })
+})
@@ -0,0 +1,178 @@
+import { getOverallColor, getPaceProgress } from './display.ts'
+import { computeForecast } from './forecast.ts'
+import type { PlanSegment } from './prorate.ts'
+import type { UsageData } from './usage.ts'
+
+export const BADGE_STYLES = ['flat', 'for-the-badge'] as const
+
+export type BadgeStyle = (typeof BADGE_STYLES)[number]
+
+export const BADGE_METRICS = ['percentage', 'remaining', 'projected'] as const
+
+export type BadgeMetric = (typeof BADGE_METRICS)[number]
+
+export const DEFAULT_BADGE_LABEL = 'copilot'
+
+/** Shields colors of the overall usage colors */
+const BADGE_COLORS = {
+  green: '#4c1',
+  yellow: '#dfb317',
+  red: '#e05d44',
+} as const
+
+const LABEL_COLOR = '#555'
+
+/**
+ * Advance widths of the printable ASCII characters in Verdana at 11px,
+ * from U+0020 (space) to U+007E (tilde), the font shields badges use.
+ */
+const VERDANA_WIDTHS = [
+  3.87, 4.33, 5.05, 9, 6.99, 11.84, 7.99, 2.95, 5, 5, 6.99, 9, 4, 5, 4, 5, 6.99,
+  6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 6.99, 5, 5, 9, 9, 9, 6, 11,
+  7.52, 7.54, 7.68, 8.48, 6.96, 6.32, 8.53, 8.27, 4.63, 5, 7.62, 6.12, 9.27,
+  8.23, 8.66, 6.63, 8.66, 7.65, 7.52, 6.78, 8.05, 7.52, 10.88, 7.54, 6.77, 7.54,
+  5, 5, 5, 9, 6.99, 6.99, 6.61, 6.85, 5.73, 6.85, 6.55, 3.87, 6.85, 6.96, 3.02,
+  3.79, 6.51, 3.02, 10.71, 6.96, 6.68, 6.85, 6.85, 4.69, 5.73, 4.33, 6.96, 6.51,
+  9, 6.51, 6.51, 5.78, 6.98, 5, 6.98, 9,
+]
+/** Width of characters outside of the table, as wide as an uppercase M */
+const FALLBACK_WIDTH = 9.27
+/** Verdana Bold runs about a tenth wider than the regular weight */
+const BOLD_WIDTH_RATIO = 1.1
+
+const FONT_FAMILY = 'Verdana,Geneva,DejaVu Sans,sans-serif'
+
+/** Layout of each style, with font sizes in px */
+const STYLE_LAYOUTS = {
+  flat: { height: 20, fontSize: 11, padding: 5, letterSpacing: 0, radius: 3 },
+  'for-the-badge': {
+    height: 28,
+    fontSize: 10,
+    padding: 12,
+    letterSpacing: 1.25,
+    radius: 0,
+  },
+} as const
+
+/** Width of `text` in Verdana at `fontSize` px */
+export function measureText(
+  text: string,
+  { fontSize = 11, bold = false }: { fontSize?: number; bold?: boolean } = {},
+): number {
+  let width = 0
+  for (const char of text) {
+    const code = char.codePointAt(0)!
+    width += VERDANA_WIDTHS[code - 0x20] ?? FALLBACK_WIDTH
+  }
+  return (width * fontSize * (bold ? BOLD_WIDTH_RATIO : 1)) / 11
+}
+
+/** Message of the badge, e.g. `142/300 (47%)` for the percentage metric */
+export function formatBadgeMessage(
+  data: UsageData,
+  limit: number,
+  metric: BadgeMetric,
+): string {
+  const used = Math.round(data.totalUsage)
+  switch (metric) {
+    case 'percentage':
+      return `${used}/${limit} (${Math.round((data.totalUsage / limit) * 100)}%)`
+    case 'remaining':
+      return `${Math.max(0, Math.round(limit - data.totalUsage))} left`
+    case 'projected': {
+      const forecast = data.closed ? null : computeForecast(data, limit)
+      const projected = forecast
+        ? (forecast.weighted ?? forecast.linear)
+        : data.totalUsage
+      return `${Math.round(projected)}/${limit} projected`
+    }
+  }
+}
+
+/** Background color of the message, following the overall usage color */
+export function getBadgeColor(
+  data: UsageData,
+  limit: number,
+  planSegments?: PlanSegment[],
+): string {
+  const percentage = (data.totalUsage / limit) * 100
+  return BADGE_COLORS[
+    getOverallColor(percentage, getPaceProgress(data, planSegments))
+  ]
+}
+
+/**
+ * Shields-style SVG badge. Text is laid out from its measured width, and
+ * pinned with `textLength` so that it fits whatever font the viewer has.
+ */
+export function renderBadge({
+  label,
+  message,
+  color,
+  style,
+}: {
+  label: string
+  message: string
+  color: string
+  style: BadgeStyle
+}): string {
+  const layout = STYLE_LAYOUTS[style]
+  const bold = style === 'for-the-badge'
+  const labelText = bold ? label.toUpperCase() : label
+  const messageText = bold ? message.toUpperCase() : message
+
+  const measure = (text: string) =>
+    measureText(text, { fontSize: layout.fontSize, bold }) +
+    layout.letterSpacing * text.length
+  const labelTextWidth = measure(labelText)
+  const messageTextWidth = measure(messageText)
+  const labelWidth = Math.round(labelTextWidth + layout.padding * 2)
+  const messageWidth = Math.round(messageTextWidth + layout.padding * 2)
+  const width = labelWidth + messageWidth
+  const { height } = layout
+
+  // Text is drawn at 10x and scaled down, for sub-pixel positioning
+  const text = (content: string, x: number, textWidth: number) => {
+    const attributes = `x="${Math.round(x * 10)}" transform="scale(.1)" textLength="${Math.round(textWidth * 10)}"`
+    if (bold) {
+      return `<text ${attributes} y="${Math.round((height / 2 + layout.fontSize / 3) * 10)}" font-weight="bold" letter-spacing="${layout.letterSpacing * 10}">${escapeXml(content)}</text>`
+    }
+    return [
+      `<text aria-hidden="true" ${attributes} y="150" fill="#010101" fill-opacity=".3">${escapeXml(content)}</text>`,
+      `<text ${attributes} y="140">${escapeXml(content)}</text>`,
+    ].join('')
+  }
+
+  const title = escapeXml(`${label}: ${message}`)
+  // The flat style has a subtle vertical gradient, for-the-badge is plain
+  const gradient = bold
+    ? []
+    : [
+        '<linearGradient id="s" x2="0" y2="100%"><stop offset="0" stop-color="#bbb" stop-opacity=".1"/><stop offset="1" stop-opacity=".1"/></linearGradient>',
+      ]
+  const shine = bold
+    ? ''
+    : `<rect width="${width}" height="${height}" fill="url(#s)"/>`
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" role="img" aria-label="${title}">`,
+    `<title>${title}</title>`,
+    ...gradient,
+    `<clipPath id="r"><rect width="${width}" height="${height}" rx="${layout.radius}" fill="#fff"/></clipPath>`,
+    `<g clip-path="url(#r)"><rect width="${labelWidth}" height="${height}" fill="${LABEL_COLOR}"/><rect x="${labelWidth}" width="${messageWidth}" height="${height}" fill="${color}"/>${shine}</g>`,
+    `<g fill="#fff" text-anchor="middle" font-family="${FONT_FAMILY}" text-rendering="geometricPrecision" font-size="${layout.fontSize * 10}">`,
+    text(labelText, labelWidth / 2, labelTextWidth),
+    text(messageText, labelWidth + messageWidth / 2, messageTextWidth),
+    '</g>',
+    '</svg>',
+    '',
+  ].join('\n')
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
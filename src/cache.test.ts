@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { CacheMissError, createCachedFetcher, getCacheDir } from './cache.ts'
+
+const FIXED_DATE = new Date('2025-06-15T12:00:00Z')
+const URL = '/users/octocat/settings/billing/premium_request/usage'
+
+let dir: string
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'gh-copilot-usage-'))
+})
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+function countingFetcher(response: unknown = { usageItems: [] }) {
+  const urls: string[] = []
+  const fetcher = async (url: string) => {
+    urls.push(url)
+    return response
+  }
+  return { fetcher, urls }
+}
+
+function minutesLater(minutes: number) {
+  return () => new Date(FIXED_DATE.getTime() + minutes * 60_000)
+}
+
+describe('getCacheDir', () => {
+  test('lives under XDG_CACHE_HOME when set', () => {
+    expect(getCacheDir({ XDG_CACHE_HOME: '/tmp/cache' })).toBe(
+      '/tmp/cache/gh-copilot-usage',
+    )
+  })
+
+  test('falls back to ~/.cache', () => {
+    expect(getCacheDir({})).toEndWith('/.cache/gh-copilot-usage')
+  })
+})
+
+describe('createCachedFetcher', () => {
+  test('serves fresh responses from the cache', async () => {
+    const upstream = countingFetcher({ login: 'octocat' })
+    const options = { dir, ttl: 300, mode: 'default' as const }
+
+    const first = createCachedFetcher(upstream.fetcher, {
+      ...options,
+      now: () => FIXED_DATE,
+    })
+    expect(await first.fetcher(URL)).toEqual({ login: 'octocat' })
+    expect(first.getDataAsOf()).toBeUndefined()
+
+    const second = createCachedFetcher(upstream.fetcher, {
+      ...options,
+      now: minutesLater(4),
+    })
+    expect(await second.fetcher(URL)).toEqual({ login: 'octocat' })
+    expect(second.getDataAsOf()).toEqual(FIXED_DATE)
+    expect(upstream.urls).toEqual([URL])
+  })
+
+  test('fetches again once the TTL has expired', async () => {
+    const upstream = countingFetcher()
+    const options = { dir, ttl: 300, mode: 'default' as const }
+    await createCachedFetcher(upstream.fetcher, {
+      ...options,
+      now: () => FIXED_DATE,
+    }).fetcher(URL)
+    await createCachedFetcher(upstream.fetcher, {
+      ...options,
+      now: minutesLater(6),
+    }).fetcher(URL)
+    expect(upstream.urls).toEqual([URL, URL])
+  })
+
+  test('keys entries by URL', async () => {
+    const upstream = countingFetcher()
+    const cache = createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'default',
+    })
+    await cache.fetcher('/user')
+    await cache.fetcher(URL)
+    await cache.fetcher('/user')
+    expect(upstream.urls).toEqual(['/user', URL])
+  })
+
+  test('bypasses fresh entries in refresh mode, updating the cache', async () => {
+    await createCachedFetcher(countingFetcher({ total: 1 }).fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'default',
+    }).fetcher(URL)
+
+    const upstream = countingFetcher({ total: 2 })
+    const refreshed = createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'refresh',
+    })
+    expect(await refreshed.fetcher(URL)).toEqual({ total: 2 })
+    expect(upstream.urls).toEqual([URL])
+
+    const offline = createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'offline',
+    })
+    expect(await offline.fetcher(URL)).toEqual({ total: 2 })
+  })
+
+  test('serves stale entries in offline mode and stamps the oldest', async () => {
+    const upstream = countingFetcher()
+    await createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'default',
+      now: () => FIXED_DATE,
+    }).fetcher('/user')
+    await createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'default',
+      now: minutesLater(60),
+    }).fetcher(URL)
+
+    const offline = createCachedFetcher(
+      async () => { throw new Error('should not fetch') },
+      { dir, ttl: 300, mode: 'offline', now: minutesLater(24 * 60) },
+    )
+    await offline.fetcher(URL)
+    expect(offline.getDataAsOf()).toEqual(minutesLater(60)())
+    await offline.fetcher('/user')
+    expect(offline.getDataAsOf()).toEqual(FIXED_DATE)
+  })
+
+  test('rejects with CacheMissError for uncached URLs in offline mode', async () => {
+    const offline = createCachedFetcher(
+      async () => { throw new Error('should not fetch') },
+      { dir, ttl: 300, mode: 'offline' },
+    )
+    await expect(offline.fetcher(URL)).rejects.toBeInstanceOf(CacheMissError)
+  })
+
+  test('does not cache failed requests', async () => {
+    const failing = createCachedFetcher(
+      async () => { throw new Error('network error') },
+      { dir, ttl: 300, mode: 'default' },
+    )
+    await expect(failing.fetcher(URL)).rejects.toThrow('network error')
+
+    const offline = createCachedFetcher(
+      async () => { throw new Error('should not fetch') },
+      { dir, ttl: 300, mode: 'offline' },
+    )
+    await expect(offline.fetcher(URL)).rejects.toBeInstanceOf(CacheMissError)
+  })
+
+  test('treats corrupted entries as missing', async () => {
+    const upstream = countingFetcher()
+    const cache = createCachedFetcher(upstream.fetcher, {
+      dir,
+      ttl: 300,
+      mode: 'default',
+    })
+    await cache.fetcher(URL)
+    const [entry] = await Array.fromAsync(new Bun.Glob('*.json').scan(dir))
+    await Bun.write(join(dir, entry!), '{ not json')
+    await cache.fetcher(URL)
+    expect(upstream.urls).toEqual([URL, URL])
+  })
+
+  test('keeps working when the cache directory is not writable', async () => {
+    const upstream = countingFetcher({ login: 'octocat' })
+    const blocker = join(dir, 'file')
+    await Bun.write(blocker, '')
+    const cache = createCachedFetcher(upstream.fetcher, {
+      dir: join(blocker, 'cache'),
+      ttl: 300,
+      mode: 'default',
+    })
+    expect(await cache.fetcher('/user')).toEqual({ login: 'octocat' })
+  })
+})
@@ -0,0 +1,94 @@
+import * as errore from 'errore'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { Fetcher } from './usage.ts'
+
+/**
+ * - `default`: serve fresh entries from the cache, fetch the rest
+ * - `refresh`: always fetch, updating the cache
+ * - `offline`: never fetch, serve entries of any age from the cache
+ */
+export type CacheMode = 'default' | 'refresh' | 'offline'
+
+export type CacheOptions = {
+  dir: string
+  /** Seconds after which an entry is no longer fresh */
+  ttl: number
+  mode: CacheMode
+  now?: () => Date
+}
+
+export type CachedFetcher = {
+  fetcher: Fetcher
+  /** Fetch time of the oldest response served from the cache, if any */
+  getDataAsOf: () => Date | undefined
+}
+
+export class CacheMissError extends errore.createTaggedError({
+  name: 'CacheMissError',
+  message: 'No cached response for $url (run once without --offline)',
+}) {}
+
+const cacheEntrySchema = z.object({
+  url: z.string(),
+  fetchedAt: z.iso.datetime().transform((value) => new Date(value)),
+  data: z.unknown(),
+})
+
+/** `$XDG_CACHE_HOME/gh-copilot-usage`, defaulting to `~/.cache` */
+export function getCacheDir(env: NodeJS.ProcessEnv): string {
+  const base = env.XDG_CACHE_HOME || join(homedir(), '.cache')
+  return join(base, 'gh-copilot-usage')
+}
+
+/**
+ * Wrap a fetcher with an on-disk cache holding one JSON file per URL.
+ * Failed requests are never cached, and an unreadable cache is treated
+ * as empty so that it can only slow things down, never break them.
+ */
+export function createCachedFetcher(
+  fetcher: Fetcher,
+  { dir, ttl, mode, now = () => new Date() }: CacheOptions,
+): CachedFetcher {
+  let dataAsOf: Date | undefined
+
+  async function readEntry(url: string) {
+    const raw: unknown = await Bun.file(getEntryPath(dir, url))
+      .json()
+      .catch(() => undefined)
+    const parsed = cacheEntrySchema.safeParse(raw)
+    // Guard against hash collisions
+    if (!parsed.success || parsed.data.url !== url) return undefined
+    return parsed.data
+  }
+
+  async function cachedFetcher(url: string): Promise<unknown> {
+    if (mode !== 'refresh') {
+      const entry = await readEntry(url)
+      const age = entry ? now().getTime() - entry.fetchedAt.getTime() : 0
+      if (entry && (mode === 'offline' || age < ttl * 1000)) {
+        if (dataAsOf === undefined || entry.fetchedAt < dataAsOf) {
+          dataAsOf = entry.fetchedAt
+        }
+        return entry.data
+      }
+      if (mode === 'offline') {
+        throw new CacheMissError({ url })
+      }
+    }
+
+    const data = await fetcher(url)
+    const entry = { url, fetchedAt: now().toISOString(), data }
+    await Bun.write(getEntryPath(dir, url), JSON.stringify(entry)).catch(() => {
+      // Read-only or full disk: carry on uncached
+    })
+    return data
+  }
+
+  return { fetcher: cachedFetcher, getDataAsOf: () => dataAsOf }
+}
+
+function getEntryPath(dir: string, url: string): string {
+  return join(dir, `${Bun.hash(url).toString(16)}.json`)
+}
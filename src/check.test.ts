@@ -0,0 +1,184 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  GithubFileWriteError,
+  evaluateThresholds,
+  formatCheckSummary,
+  formatGithubOutputs,
+  formatStepSummary,
+  parseThreshold,
+  writeGithubFiles,
+} from './check.ts'
+import { makeUsageData } from './test-utils.ts'
+
+describe('parseThreshold', () => {
+  test('parses absolute counts and percentages', () => {
+    expect(parseThreshold('250')).toEqual({ value: 250, unit: 'count' })
+    expect(parseThreshold('80%')).toEqual({ value: 80, unit: 'percent' })
+    expect(parseThreshold('12.5%')).toEqual({ value: 12.5, unit: 'percent' })
+  })
+
+  test('rejects invalid thresholds', () => {
+    for (const raw of ['', '0', '-5', 'abc', '80%%', '%']) {
+      expect(parseThreshold(raw)).toBeUndefined()
+    }
+  })
+})
+
+describe('evaluateThresholds', () => {
+  const warn = { value: 50, unit: 'percent' } as const
+  const fail = { value: 80, unit: 'percent' } as const
+
+  test('is ok below the warn threshold', () => {
+    const data = makeUsageData({ totalUsage: 149 })
+    const result = evaluateThresholds(data, 300, { warn, fail, pace: false })
+    expect(result.status).toBe('ok')
+    expect(result.breached).toBeNull()
+  })
+
+  test('warns from the warn threshold on', () => {
+    const data = makeUsageData({ totalUsage: 150 })
+    const result = evaluateThresholds(data, 300, { warn, fail, pace: false })
+    expect(result.status).toBe('warn')
+    expect(result.breached).toEqual({ threshold: warn, requests: 150 })
+  })
+
+  test('fails from the fail threshold on, even past the warn threshold', () => {
+    const data = makeUsageData({ totalUsage: 245 })
+    const result = evaluateThresholds(data, 300, { warn, fail, pace: false })
+    expect(result.status).toBe('fail')
+    expect(result.breached).toEqual({ threshold: fail, requests: 240 })
+  })
+
+  test('compares absolute counts to the usage', () => {
+    const data = makeUsageData({ totalUsage: 100 })
+    const options = {
+      fail: { value: 100, unit: 'count' },
+      pace: false,
+    } as const
+    expect(evaluateThresholds(data, 300, options).status).toBe('fail')
+  })
+
+  test('prorates thresholds by month progress with pace', () => {
+    // At noon on June 15, 14.5 of 30 days elapsed: 80% prorates to 116
+    const data = makeUsageData({ totalUsage: 125 })
+    expect(evaluateThresholds(data, 300, { fail, pace: false }).status).toBe(
+      'ok',
+    )
+    const result = evaluateThresholds(data, 300, { fail, pace: true })
+    expect(result.status).toBe('fail')
+    expect(result.breached?.requests).toBe(116)
+  })
+
+  test('follows the month pacing colors without thresholds', () => {
+    const evaluate = (totalUsage: number) =>
+      evaluateThresholds(makeUsageData({ totalUsage }), 300, { pace: false })
+        .status
+    expect(evaluate(100)).toBe('ok')
+    expect(evaluate(200)).toBe('warn')
+    expect(evaluate(250)).toBe('fail')
+  })
+
+  test('paces the allowance of each plan after a plan change', () => {
+    const segments = [
+      { label: 'pro', allowance: 300, firstDay: 1, lastDay: 11 },
+      { label: 'pro+', allowance: 1500, firstDay: 12, lastDay: 30 },
+    ]
+    const data = makeUsageData({ totalUsage: 350 })
+    expect(evaluateThresholds(data, 1060, { pace: false }).status).toBe('ok')
+    expect(
+      evaluateThresholds(data, 1060, { pace: false }, segments).status,
+    ).toBe('warn')
+  })
+})
+
+describe('formatCheckSummary', () => {
+  test('describes the status on one line', () => {
+    const result = evaluateThresholds(makeUsageData({ totalUsage: 245 }), 300, {
+      fail: { value: 80, unit: 'percent' },
+      pace: false,
+    })
+    const summary = formatCheckSummary(result)
+    expect(summary).toBe(
+      'FAIL: 245/300 premium requests (81.7%), reached fail threshold 80% (240 requests) • 48% of 2025-06 elapsed',
+    )
+    expect(summary).not.toContain('\n')
+  })
+
+  test('reports usage within thresholds', () => {
+    const result = evaluateThresholds(makeUsageData({ totalUsage: 10 }), 300, {
+      warn: { value: 100, unit: 'count' },
+      pace: false,
+    })
+    expect(formatCheckSummary(result)).toStartWith(
+      'OK: 10/300 premium requests (3.3%), within thresholds',
+    )
+  })
+})
+
+describe('GitHub Actions files', () => {
+  const options = {
+    warn: { value: 50, unit: 'percent' },
+    fail: { value: 80, unit: 'percent' },
+    pace: true,
+  } as const
+  const result = evaluateThresholds(
+    makeUsageData({ totalUsage: 100 }),
+    300,
+    options,
+  )
+
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gh-copilot-usage-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('step summary is a markdown table of the check', () => {
+    const markdown = formatStepSummary(result, options)
+    expect(markdown).toContain('### ⚠️ Copilot premium requests')
+    expect(markdown).toContain('| Status | WARN |')
+    expect(markdown).toContain('| Fail threshold | 80% |')
+    expect(markdown).toContain('| Thresholds | Prorated by month progress |')
+  })
+
+  test('outputs are key=value lines', () => {
+    const lines = formatGithubOutputs(result).trimEnd().split('\n')
+    expect(lines).toContain('status=warn')
+    expect(lines).toContain('usage=100')
+    expect(lines).toContain('limit=300')
+    expect(lines).toContain('percentage=33.3')
+  })
+
+  test('appends to the files set in the environment', async () => {
+    const summaryPath = join(dir, 'summary.md')
+    const outputPath = join(dir, 'output')
+    await Bun.write(outputPath, 'previous=step\n')
+    const written = await writeGithubFiles(result, options, {
+      GITHUB_STEP_SUMMARY: summaryPath,
+      GITHUB_OUTPUT: outputPath,
+    })
+    expect(written).toBeUndefined()
+    expect(await Bun.file(summaryPath).text()).toContain('| Status | WARN |')
+    const output = await Bun.file(outputPath).text()
+    expect(output).toStartWith('previous=step\nstatus=warn\n')
+  })
+
+  test('writes nothing outside of GitHub Actions', async () => {
+    const written = await writeGithubFiles(result, options, {})
+    expect(written).toBeUndefined()
+  })
+
+  test('returns GithubFileWriteError when a file cannot be written', async () => {
+    const written = await writeGithubFiles(result, options, {
+      GITHUB_OUTPUT: join(dir, 'missing', 'output'),
+    })
+    expect(written).toBeInstanceOf(GithubFileWriteError)
+  })
+})
@@ -0,0 +1,204 @@
+import * as errore from 'errore'
+import { appendFile } from 'node:fs/promises'
+import { getOverallColor, getPaceProgress } from './display.ts'
+import type { PlanSegment } from './prorate.ts'
+import { type UsageData, formatPeriod, getCycleProgress } from './usage.ts'
+
+/** An absolute number of premium requests, or a percentage of the limit */
+export type Threshold = { value: number; unit: 'count' | 'percent' }
+
+export type CheckStatus = 'ok' | 'warn' | 'fail'
+
+export const CHECK_EXIT_CODES: Record<CheckStatus, number> = {
+  ok: 0,
+  warn: 1,
+  fail: 2,
+}
+
+/** Exit code of a check that could not evaluate the usage, e.g. offline */
+export const CHECK_ERROR_EXIT_CODE = 3
+
+export type CheckOptions = {
+  warn?: Threshold
+  fail?: Threshold
+  /** Prorate thresholds by the elapsed fraction of the billing month */
+  pace: boolean
+}
+
+export type CheckResult = {
+  status: CheckStatus
+  period: string
+  usage: number
+  limit: number
+  percentage: number
+  monthProgress: number
+  /**
+   * Threshold that set the status, with its value in premium requests
+   * after prorating. Null when within thresholds, or when none were given
+   * and the status follows the month pacing colors.
+   */
+  breached: { threshold: Threshold; requests: number } | null
+}
+
+export class GithubFileWriteError extends errore.createTaggedError({
+  name: 'GithubFileWriteError',
+  message: 'Failed to write $variable file "$path"',
+}) {}
+
+/** Parse `250` (premium requests) or `80%` (of the limit) */
+export function parseThreshold(raw: string): Threshold | undefined {
+  const match = /^(\d+(?:\.\d+)?)(%?)$/.exec(raw.trim())
+  if (!match) return undefined
+  const value = parseFloat(match[1]!)
+  if (value <= 0) return undefined
+  return { value, unit: match[2] ? 'percent' : 'count' }
+}
+
+export function formatThreshold(threshold: Threshold): string {
+  return threshold.unit === 'percent'
+    ? `${threshold.value}%`
+    : String(threshold.value)
+}
+
+/**
+ * Evaluate usage against the warn and fail thresholds, the fail threshold
+ * winning when both are crossed. Without thresholds, the status follows
+ * the overall usage color: ahead of pace warns, well ahead of pace fails.
+ * The pace follows the allowance of each plan in `planSegments`.
+ */
+export function evaluateThresholds(
+  data: UsageData,
+  limit: number,
+  { warn, fail, pace }: CheckOptions,
+  planSegments?: PlanSegment[],
+): CheckResult {
+  const monthProgress = getCycleProgress(data)
+  const paceProgress = getPaceProgress(data, planSegments)
+  const percentage = (data.totalUsage / limit) * 100
+  const result: CheckResult = {
+    status: 'ok',
+    period: formatPeriod({ year: data.year, month: parseInt(data.month, 10) }),
+    usage: data.totalUsage,
+    limit,
+    percentage,
+    monthProgress,
+    breached: null,
+  }
+
+  if (warn === undefined && fail === undefined) {
+    const color = getOverallColor(percentage, paceProgress)
+    result.status =
+      color === 'red' ? 'fail' : color === 'yellow' ? 'warn' : 'ok'
+    return result
+  }
+
+  const toRequests = (threshold: Threshold) => {
+    const requests =
+      threshold.unit === 'percent'
+        ? (threshold.value / 100) * limit
+        : threshold.value
+    return pace ? requests * paceProgress : requests
+  }
+
+  for (const [status, threshold] of [
+    ['fail', fail],
+    ['warn', warn],
+  ] as const) {
+    if (threshold === undefined) continue
+    const requests = toRequests(threshold)
+    if (data.totalUsage >= requests) {
+      result.status = status
+      result.breached = { threshold, requests }
+      return result
+    }
+  }
+  return result
+}
+
+/** One-line summary, e.g. `FAIL: 245/300 premium requests (81.7%) ...` */
+export function formatCheckSummary(result: CheckResult): string {
+  const usage = `${Math.round(result.usage)}/${result.limit} premium requests (${result.percentage.toFixed(1)}%)`
+  const day = `${(result.monthProgress * 100).toFixed(0)}% of ${result.period} elapsed`
+  let reason: string
+  if (result.breached) {
+    const { threshold, requests } = result.breached
+    const level = result.status === 'fail' ? 'fail' : 'warn'
+    reason = `reached ${level} threshold ${formatThreshold(threshold)}`
+    if (Math.round(requests) !== threshold.value) {
+      reason += ` (${Math.round(requests)} requests)`
+    }
+  } else if (result.status === 'ok') {
+    reason = 'within thresholds'
+  } else if (result.status === 'warn') {
+    reason = 'ahead of the monthly pace'
+  } else {
+    reason = 'well ahead of the monthly pace'
+  }
+  return `${result.status.toUpperCase()}: ${usage}, ${reason} • ${day}`
+}
+
+/** Markdown for the `GITHUB_STEP_SUMMARY` of a workflow run */
+export function formatStepSummary(
+  result: CheckResult,
+  options: CheckOptions,
+): string {
+  const icon = { ok: '✅', warn: '⚠️', fail: '❌' }[result.status]
+  const rows = [
+    ['Status', result.status.toUpperCase()],
+    ['Period', result.period],
+    ['Premium requests', String(Math.round(result.usage))],
+    ['Limit', String(result.limit)],
+    ['Usage', `${result.percentage.toFixed(1)}%`],
+    ['Month elapsed', `${(result.monthProgress * 100).toFixed(1)}%`],
+  ]
+  if (options.warn) rows.push(['Warn threshold', formatThreshold(options.warn)])
+  if (options.fail) rows.push(['Fail threshold', formatThreshold(options.fail)])
+  if (options.pace && (options.warn || options.fail)) {
+    rows.push(['Thresholds', 'Prorated by month progress'])
+  }
+  return [
+    `### ${icon} Copilot premium requests`,
+    '',
+    formatCheckSummary(result),
+    '',
+    '| | |',
+    '|---|---|',
+    ...rows.map(([label, value]) => `| ${label} | ${value} |`),
+    '',
+  ].join('\n')
+}
+
+/** `key=value` lines for the `GITHUB_OUTPUT` of a workflow step */
+export function formatGithubOutputs(result: CheckResult): string {
+  return [
+    `status=${result.status}`,
+    `usage=${Math.round(result.usage)}`,
+    `limit=${result.limit}`,
+    `percentage=${result.percentage.toFixed(1)}`,
+    `summary=${formatCheckSummary(result)}`,
+    '',
+  ].join('\n')
+}
+
+/**
+ * Append the step summary and outputs to the files GitHub Actions points
+ * to, when running in a workflow.
+ */
+export async function writeGithubFiles(
+  result: CheckResult,
+  options: CheckOptions,
+  env: NodeJS.ProcessEnv,
+): Promise<void | GithubFileWriteError> {
+  const files = [
+    ['GITHUB_STEP_SUMMARY', formatStepSummary(result, options)],
+    ['GITHUB_OUTPUT', formatGithubOutputs(result)],
+  ] as const
+  for (const [variable, content] of files) {
+    const path = env[variable]
+    if (!path) continue
+    const written = await appendFile(path, content).catch(
+      (e: unknown) => new GithubFileWriteError({ variable, path, cause: e }),
+    )
+    if (written instanceof GithubFileWriteError) return written
+  }
+}
@@ -1,8 +1,28 @@
 import { describe, expect, test } from 'bun:test'
 import {
+  ConflictingOptionsError,
+  DependentOptionError,
+  InvalidBadgeMetricError,
+  InvalidBadgeStyleError,
+  InvalidCostCenterError,
+  InvalidDateError,
+  InvalidEnterpriseError,
+  InvalidFormatError,
+  InvalidIntervalError,
   InvalidLimitError,
+  InvalidMonthCountError,
+  InvalidMonthError,
+  InvalidOrgError,
   InvalidPlanError,
+  InvalidPortError,
+  InvalidTemplateError,
+  InvalidThresholdError,
+  MissingArgumentError,
+  MissingOptionError,
+  UnexpectedArgumentError,
+  UnknownCommandError,
   UnknownFlagError,
+  getCommand,
   parseCliArgs,
 } from './cli.ts'
 
@@ -74,6 +94,22 @@ describe('parseCliArgs', () => {
       expect(result).toBeInstanceOf(InvalidPlanError)
     })
 
+    test('accepts custom plans of the config file', () => {
+      const plans = { pro: 300, 'acme-enterprise': 5000 }
+      const result = parseCliArgs(argv('--plan', 'Acme-Enterprise'), plans)
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.plan).toBe('acme-enterprise')
+
+      const help = parseCliArgs(argv('--help'), plans)
+      expect(help).toHaveProperty(
+        'text',
+        expect.stringContaining('Set your Copilot plan (pro, acme-enterprise)'),
+      )
+    })
+
     test('-p shorthand works', () => {
       const result = parseCliArgs(argv('-p', 'pro+'))
       expect(result).not.toBeInstanceOf(Error)
@@ -84,6 +120,38 @@ describe('parseCliArgs', () => {
     })
   })
 
+  describe('--plan-since', () => {
+    test('accepts the day of a plan change', () => {
+      const result = parseCliArgs(argv('--plan-since', '2025-06-12'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.planSince).toBe('2025-06-12')
+    })
+
+    test('returns InvalidDateError for malformed value', () => {
+      for (const value of ['2025-06', '2025-6-12', '2025-06-31', 'june']) {
+        const result = parseCliArgs(argv('--plan-since', value))
+        expect(result).toBeInstanceOf(InvalidDateError)
+      }
+    })
+
+    test('is passed to config explain', () => {
+      const result = parseCliArgs(
+        argv('config', 'explain', '--plan-since', '2025-06-12'),
+      )
+      expect(result).toHaveProperty('planSince', '2025-06-12')
+    })
+
+    test('conflicts with the users command', () => {
+      const result = parseCliArgs(
+        argv('users', '--org', 'acme', '--plan-since', '2025-06-12'),
+      )
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+  })
+
   describe('--limit', () => {
     test('accepts positive integer', () => {
       const result = parseCliArgs(argv('--limit', '500'))
@@ -124,6 +192,741 @@ describe('parseCliArgs', () => {
     })
   })
 
+  describe('--format', () => {
+    test('defaults to text', () => {
+      const result = parseCliArgs(argv())
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('text')
+    })
+
+    test('accepts json', () => {
+      const result = parseCliArgs(argv('--format', 'json'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('json')
+    })
+
+    test('--json is shorthand for --format json', () => {
+      const result = parseCliArgs(argv('--json'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('json')
+    })
+
+    test('--json can be combined with --format json', () => {
+      const result = parseCliArgs(argv('--json', '--format', 'json'))
+      expect(result).not.toBeInstanceOf(Error)
+    })
+
+    test('returns ConflictingOptionsError for --json with another format', () => {
+      const result = parseCliArgs(argv('--json', '--format', 'text'))
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+
+    test('accepts csv', () => {
+      const result = parseCliArgs(argv('--format', 'csv'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('csv')
+    })
+
+    test('accepts html with an output file', () => {
+      const result = parseCliArgs(
+        argv('--format', 'html', '--out', 'report.html'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('html')
+      expect(result.out).toBe('report.html')
+    })
+
+    test('returns InvalidFormatError for unknown format', () => {
+      const result = parseCliArgs(argv('--format', 'yaml'))
+      expect(result).toBeInstanceOf(InvalidFormatError)
+    })
+
+    test('-f shorthand works', () => {
+      const result = parseCliArgs(argv('-f', 'JSON'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('json')
+    })
+
+    test('returns DependentOptionError with other commands', () => {
+      for (const args of [
+        ['history', '--json'],
+        ['history', '--format', 'csv'],
+        ['users', '--org', 'acme', '--json'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(DependentOptionError)
+      }
+      expect(parseCliArgs(argv('history', '--json'))).toHaveProperty(
+        'message',
+        'Option --json can only be used with the default or export command',
+      )
+    })
+  })
+
+  describe('--format line', () => {
+    test('accepts a template', () => {
+      const result = parseCliArgs(
+        argv('--format', 'line', '--template', '{used}/{limit} {pct}'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.format).toBe('line')
+      expect(result.template).toBe('{used}/{limit} {pct}')
+    })
+
+    test('returns InvalidTemplateError for unknown fields', () => {
+      const result = parseCliArgs(
+        argv('--format', 'line', '--template', '{used} {cost}'),
+      )
+      expect(result).toBeInstanceOf(InvalidTemplateError)
+      expect(result).toHaveProperty('field', 'cost')
+    })
+
+    test('returns DependentOptionError for --template without the line format', () => {
+      const result = parseCliArgs(argv('--template', '{used}'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+
+    test('--no-color disables colors', () => {
+      const result = parseCliArgs(argv('--format', 'line', '--no-color'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.color).toBe(false)
+    })
+
+    test('leaves colors to NO_COLOR by default', () => {
+      const result = parseCliArgs(argv('--format', 'line'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.color).toBeUndefined()
+    })
+
+    test('--no-color applies to the history and users commands', () => {
+      for (const args of [['history'], ['users', '--org', 'acme']]) {
+        const result = parseCliArgs(argv(...args, '--no-color'))
+        expect(result).not.toBeInstanceOf(Error)
+        if (result instanceof Error) return
+        if (result.action !== 'history' && result.action !== 'users') return
+        expect(result.color).toBe(false)
+      }
+      const result = parseCliArgs(argv('check', '--no-color'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+
+    test('returns DependentOptionError for --template with other commands', () => {
+      const result = parseCliArgs(argv('history', '--template', '{used}'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+  })
+
+  describe('--month', () => {
+    test('parses YYYY-MM into a billing period', () => {
+      const result = parseCliArgs(argv('--month', '2025-04'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.period).toEqual({ year: 2025, month: 4 })
+    })
+
+    test('returns InvalidMonthError for malformed value', () => {
+      for (const value of ['2025-4', '04-2025', '2025-13', '2025-00', 'may']) {
+        const result = parseCliArgs(argv('--month', value))
+        expect(result).toBeInstanceOf(InvalidMonthError)
+      }
+    })
+
+    test('--prev selects the previous billing period', () => {
+      const result = parseCliArgs(argv('--prev'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.period).toBe('previous')
+    })
+
+    test('returns ConflictingOptionsError for --month with --prev', () => {
+      const result = parseCliArgs(argv('--month', '2025-04', '--prev'))
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+
+    test('returns DependentOptionError with the serve command', () => {
+      for (const args of [['--month', '2025-06'], ['--prev']]) {
+        expect(parseCliArgs(argv('serve', ...args))).toBeInstanceOf(
+          DependentOptionError,
+        )
+      }
+    })
+
+    test('defaults to the current period', () => {
+      const result = parseCliArgs(argv())
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.period).toBeUndefined()
+    })
+  })
+
+  describe('--daily', () => {
+    test('defaults to false', () => {
+      const result = parseCliArgs(argv())
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.daily).toBe(false)
+    })
+
+    test('enables the daily chart', () => {
+      const result = parseCliArgs(argv('--daily'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.daily).toBe(true)
+    })
+
+    test('returns DependentOptionError with other commands', () => {
+      const result = parseCliArgs(argv('history', '--daily'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+  })
+
+  describe('--org', () => {
+    test('reports on an organization', () => {
+      const result = parseCliArgs(argv('--org', 'acme-corp'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.org).toBe('acme-corp')
+    })
+
+    test('applies to the history command', () => {
+      const result = parseCliArgs(argv('history', '--org', 'acme'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('history')
+      if (result.action !== 'history') return
+      expect(result.org).toBe('acme')
+    })
+
+    test('returns InvalidOrgError for invalid organization names', () => {
+      for (const org of ['acme/corp', '-acme', 'acme-', '../users']) {
+        const result = parseCliArgs(argv(`--org=${org}`))
+        expect(result).toBeInstanceOf(InvalidOrgError)
+      }
+    })
+  })
+
+  describe('--enterprise', () => {
+    test('reports on an enterprise cost center', () => {
+      const result = parseCliArgs(
+        argv('--enterprise', 'megacorp', '--cost-center', 'cc-42'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('run')
+      if (result.action !== 'run') return
+      expect(result.enterprise).toBe('megacorp')
+      expect(result.costCenter).toBe('cc-42')
+    })
+
+    test('cannot be combined with --org', () => {
+      const result = parseCliArgs(argv('--org', 'acme', '-e', 'megacorp'))
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+
+    test('is required by --cost-center', () => {
+      const result = parseCliArgs(argv('--cost-center', 'cc-42'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+
+    test('rejects invalid slugs and cost center IDs', () => {
+      expect(parseCliArgs(argv('--enterprise', 'mega/corp'))).toBeInstanceOf(
+        InvalidEnterpriseError,
+      )
+      expect(
+        parseCliArgs(argv('-e', 'megacorp', '--cost-center', 'cc 42')),
+      ).toBeInstanceOf(InvalidCostCenterError)
+    })
+  })
+
+  describe('cache options', () => {
+    test('uses the cache by default', () => {
+      const result = parseCliArgs(argv())
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      if (result.action !== 'run') return
+      expect(result.cache).toBe('default')
+    })
+
+    test('--refresh bypasses the cache', () => {
+      const result = parseCliArgs(argv('history', '--refresh'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      if (result.action !== 'history') return
+      expect(result.cache).toBe('refresh')
+    })
+
+    test('--offline only reads from the cache', () => {
+      const result = parseCliArgs(argv('users', '--org', 'acme', '--offline'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      if (result.action !== 'users') return
+      expect(result.cache).toBe('offline')
+    })
+
+    test('--refresh and --offline conflict', () => {
+      const result = parseCliArgs(argv('--refresh', '--offline'))
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+  })
+
+  describe('--watch', () => {
+    function parseWatch(...args: string[]) {
+      const result = parseCliArgs(argv(...args))
+      if (result instanceof Error || result.action !== 'run') return result
+      return result.watch
+    }
+
+    test('is off by default', () => {
+      expect(parseWatch()).toBeUndefined()
+    })
+
+    test('defaults to refreshing every minute', () => {
+      expect(parseWatch('--watch')).toBe(60)
+      expect(parseWatch('--watch', '--daily')).toBe(60)
+      expect(parseWatch('-w')).toBe(60)
+    })
+
+    test('accepts an interval in seconds or minutes', () => {
+      expect(parseWatch('--watch', '30')).toBe(30)
+      expect(parseWatch('--watch=45s')).toBe(45)
+      expect(parseWatch('-w', '2m')).toBe(120)
+    })
+
+    test('returns InvalidIntervalError for invalid intervals', () => {
+      for (const value of ['5', '0', '1.5', 'soon']) {
+        expect(parseWatch(`--watch=${value}`)).toBeInstanceOf(
+          InvalidIntervalError,
+        )
+      }
+    })
+
+    test('conflicts with --offline and JSON output', () => {
+      expect(parseWatch('--watch', '--offline')).toBeInstanceOf(
+        ConflictingOptionsError,
+      )
+      expect(parseWatch('--watch', '--json')).toBeInstanceOf(
+        ConflictingOptionsError,
+      )
+    })
+
+    test('returns DependentOptionError with other commands', () => {
+      const result = parseCliArgs(argv('history', '--watch', '60'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+  })
+
+  describe('history command', () => {
+    test('defaults to 6 months', () => {
+      const result = parseCliArgs(argv('history'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('history')
+      if (result.action !== 'history') return
+      expect(result.months).toBe(6)
+    })
+
+    test('accepts --months', () => {
+      const result = parseCliArgs(
+        argv('history', '--months', '12', '--plan', 'pro+'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('history')
+      if (result.action !== 'history') return
+      expect(result.months).toBe(12)
+      expect(result.plan).toBe('pro+')
+    })
+
+    test('returns InvalidMonthCountError for out-of-range values', () => {
+      for (const value of ['0', '25', '2.5', 'abc']) {
+        const result = parseCliArgs(argv('history', '--months', value))
+        expect(result).toBeInstanceOf(InvalidMonthCountError)
+      }
+    })
+
+    test('months can only be used with the history and export commands', () => {
+      expect(parseCliArgs(argv('--months', '3'))).toHaveProperty(
+        'message',
+        'Option --months can only be used with the history or export command',
+      )
+    })
+  })
+
+  describe('export command', () => {
+    test('exports the current month by default', () => {
+      const result = parseCliArgs(argv('export'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('export')
+      if (result.action !== 'export') return
+      expect(result.months).toBe(1)
+      expect(result.period).toBeUndefined()
+      expect(result.out).toBeUndefined()
+    })
+
+    test('accepts a range of months, a daily breakdown and a file', () => {
+      const result = parseCliArgs(
+        argv(
+          'export',
+          '--month',
+          '2025-06',
+          '--months',
+          '6',
+          '--daily',
+          '--out',
+          'usage.csv',
+        ),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('export')
+      if (result.action !== 'export') return
+      expect(result.period).toEqual({ year: 2025, month: 6 })
+      expect(result.months).toBe(6)
+      expect(result.daily).toBe(true)
+      expect(result.out).toBe('usage.csv')
+    })
+
+    test('returns ConflictingOptionsError for formats other than csv', () => {
+      expect(
+        parseCliArgs(argv('export', '--format', 'csv')),
+      ).not.toBeInstanceOf(Error)
+      const result = parseCliArgs(argv('export', '--json'))
+      expect(result).toBeInstanceOf(ConflictingOptionsError)
+    })
+
+    test('returns DependentOptionError for --out with the terminal UI', () => {
+      const result = parseCliArgs(argv('--out', 'usage.txt'))
+      expect(result).toBeInstanceOf(DependentOptionError)
+    })
+
+    test('names the commands using an option of another command', () => {
+      const result = parseCliArgs(argv('history', '--out', 'usage.csv'))
+      expect(result).toHaveProperty(
+        'message',
+        'Option --out can only be used with the default, export or badge command',
+      )
+    })
+  })
+
+  describe('badge command', () => {
+    test('defaults to a flat percentage badge', () => {
+      const result = parseCliArgs(argv('badge'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('badge')
+      if (result.action !== 'badge') return
+      expect(result.label).toBe('copilot')
+      expect(result.style).toBe('flat')
+      expect(result.metric).toBe('percentage')
+    })
+
+    test('accepts a label, style, metric and file', () => {
+      const result = parseCliArgs(
+        argv(
+          'badge',
+          '--label',
+          'premium requests',
+          '--style',
+          'for-the-badge',
+          '--metric',
+          'projected',
+          '--out',
+          'copilot.svg',
+        ),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('badge')
+      if (result.action !== 'badge') return
+      expect(result.label).toBe('premium requests')
+      expect(result.style).toBe('for-the-badge')
+      expect(result.metric).toBe('projected')
+      expect(result.out).toBe('copilot.svg')
+    })
+
+    test('returns errors for unknown styles and metrics', () => {
+      expect(parseCliArgs(argv('badge', '--style', 'plastic'))).toBeInstanceOf(
+        InvalidBadgeStyleError,
+      )
+      expect(parseCliArgs(argv('badge', '--metric', 'cost'))).toBeInstanceOf(
+        InvalidBadgeMetricError,
+      )
+    })
+
+    test('badge options can only be used with the badge command', () => {
+      for (const args of [
+        ['--style', 'flat'],
+        ['config', 'list', '--label', 'Copilot'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(DependentOptionError)
+      }
+    })
+  })
+
+  describe('config command', () => {
+    test('sets a key to a value', () => {
+      const result = parseCliArgs(argv('config', 'set', 'plan', 'pro+'))
+      expect(result).toEqual({
+        action: 'config',
+        operation: 'set',
+        key: 'plan',
+        value: 'pro+',
+      })
+    })
+
+    test('lists and locates the config file without arguments', () => {
+      expect(parseCliArgs(argv('config', 'list'))).toEqual({
+        action: 'config',
+        operation: 'list',
+      })
+      expect(parseCliArgs(argv('config', 'path'))).toEqual({
+        action: 'config',
+        operation: 'path',
+      })
+    })
+
+    test('explains settings with the options of other commands', () => {
+      const result = parseCliArgs(
+        argv('config', 'explain', '--org', 'acme', '--plan', 'business'),
+      )
+      expect(result).toEqual({
+        action: 'config',
+        operation: 'explain',
+        plan: 'business',
+        limit: undefined,
+        org: 'acme',
+        enterprise: undefined,
+        costCenter: undefined,
+        cache: 'default',
+      })
+    })
+
+    test('returns MissingArgumentError for a missing key or value', () => {
+      const missingKey = parseCliArgs(argv('config', 'get'))
+      expect(missingKey).toBeInstanceOf(MissingArgumentError)
+      expect(missingKey).toHaveProperty(
+        'message',
+        'Missing <key> argument of the config get command',
+      )
+      const missingValue = parseCliArgs(argv('config', 'set', 'limit'))
+      expect(missingValue).toHaveProperty(
+        'message',
+        'Missing <value> argument of the config set command',
+      )
+      expect(parseCliArgs(argv('config'))).toBeInstanceOf(MissingArgumentError)
+    })
+
+    test('returns UnexpectedArgumentError for extra arguments', () => {
+      const result = parseCliArgs(
+        argv('config', 'set', 'on_threshold.80', 'notify-send', 'hi'),
+      )
+      expect(result).toBeInstanceOf(UnexpectedArgumentError)
+    })
+
+    test('returns UnknownCommandError for unknown actions', () => {
+      const result = parseCliArgs(argv('config', 'edit'))
+      expect(result).toBeInstanceOf(UnknownCommandError)
+      expect(result).toHaveProperty(
+        'message',
+        expect.stringContaining('config get, config set'),
+      )
+    })
+
+    test('returns DependentOptionError for the options of explain', () => {
+      for (const args of [
+        ['config', 'list', '--org', 'acme'],
+        ['config', 'get', 'plan', '--plan', 'pro'],
+        ['config', 'set', 'limit', '500', '--limit', '300'],
+        ['config', 'path', '--offline'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(DependentOptionError)
+      }
+      const result = parseCliArgs(argv('config', 'list', '--org', 'acme'))
+      expect(result).toHaveProperty(
+        'message',
+        'Option --org can only be used with the config explain command',
+      )
+    })
+  })
+
+  describe('users command', () => {
+    test('requires --org', () => {
+      const result = parseCliArgs(argv('users'))
+      expect(result).toBeInstanceOf(MissingOptionError)
+    })
+
+    test('accepts an organization and a roster file', () => {
+      const result = parseCliArgs(
+        argv('users', '--org', 'acme', '--roster', 'team.txt'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('users')
+      if (result.action !== 'users') return
+      expect(result.org).toBe('acme')
+      expect(result.roster).toBe('team.txt')
+    })
+
+    test('roster can only be used with the users command', () => {
+      for (const args of [
+        ['--roster', 'team.txt'],
+        ['check', '--org', 'acme', '--roster', 'team.txt'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(DependentOptionError)
+      }
+    })
+  })
+
+  describe('check command', () => {
+    test('accepts warn and fail thresholds', () => {
+      const result = parseCliArgs(
+        argv('check', '--warn', '200', '--fail', '80%', '--pace'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('check')
+      if (result.action !== 'check') return
+      expect(result.warn).toEqual({ value: 200, unit: 'count' })
+      expect(result.fail).toEqual({ value: 80, unit: 'percent' })
+      expect(result.pace).toBe(true)
+    })
+
+    test('thresholds are optional', () => {
+      const result = parseCliArgs(argv('check', '--org', 'acme'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      if (result.action !== 'check') return
+      expect(result.warn).toBeUndefined()
+      expect(result.fail).toBeUndefined()
+      expect(result.pace).toBe(false)
+      expect(result.org).toBe('acme')
+    })
+
+    test('returns InvalidThresholdError for invalid thresholds', () => {
+      expect(parseCliArgs(argv('check', '--warn', 'lots'))).toBeInstanceOf(
+        InvalidThresholdError,
+      )
+      expect(parseCliArgs(argv('check', '--fail', '0%'))).toBeInstanceOf(
+        InvalidThresholdError,
+      )
+    })
+
+    test('thresholds can only be used with the check command', () => {
+      for (const args of [
+        ['--warn', '50%'],
+        ['--fail', '10'],
+        ['--pace'],
+        ['config', 'list', '--warn', '50%'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(
+          DependentOptionError,
+        )
+      }
+    })
+  })
+
+  describe('serve command', () => {
+    test('defaults to port 9464, refreshing every 5 minutes', () => {
+      const result = parseCliArgs(argv('serve'))
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      expect(result.action).toBe('serve')
+      if (result.action !== 'serve') return
+      expect(result.port).toBe(9464)
+      expect(result.interval).toBe(300)
+    })
+
+    test('accepts a port and refresh interval', () => {
+      const result = parseCliArgs(
+        argv('serve', '--port', '8080', '--interval', '2m', '--org', 'acme'),
+      )
+      expect(result).not.toBeInstanceOf(Error)
+      if (result instanceof Error) return
+      if (result.action !== 'serve') return
+      expect(result.port).toBe(8080)
+      expect(result.interval).toBe(120)
+      expect(result.org).toBe('acme')
+    })
+
+    test('returns InvalidPortError for invalid ports', () => {
+      for (const port of ['0', '65536', 'http', '80.5']) {
+        expect(parseCliArgs(argv('serve', '--port', port))).toBeInstanceOf(
+          InvalidPortError,
+        )
+      }
+    })
+
+    test('returns InvalidIntervalError for too short intervals', () => {
+      expect(parseCliArgs(argv('serve', '--interval', '5'))).toBeInstanceOf(
+        InvalidIntervalError,
+      )
+    })
+
+    test('returns ConflictingOptionsError with --offline', () => {
+      expect(parseCliArgs(argv('serve', '--offline'))).toBeInstanceOf(
+        ConflictingOptionsError,
+      )
+    })
+
+    test('port and interval can only be used with the serve command', () => {
+      for (const args of [
+        ['--port', '8080'],
+        ['--interval', '60'],
+        ['config', 'list', '--port', '8080'],
+      ]) {
+        expect(parseCliArgs(argv(...args))).toBeInstanceOf(
+          DependentOptionError,
+        )
+      }
+    })
+  })
+
+  describe('unknown commands', () => {
+    test('returns UnknownCommandError for unknown command', () => {
+      const result = parseCliArgs(argv('frobnicate'))
+      expect(result).toBeInstanceOf(UnknownCommandError)
+    })
+  })
+
   describe('run action', () => {
     test('no args returns run action with no plan or limit', () => {
       const result = parseCliArgs(argv())
@@ -160,3 +963,20 @@ describe('parseCliArgs', () => {
     })
   })
 })
+
+describe('getCommand', () => {
+  test('finds the command of options that do not parse', () => {
+    for (const args of [
+      ['check', '--bogus'],
+      ['check', '--warn', 'abc'],
+      ['--plan', 'pro', 'check', '--fail'],
+    ]) {
+      expect(parseCliArgs(argv(...args))).toBeInstanceOf(Error)
+      expect(getCommand(argv(...args))).toBe('check')
+    }
+  })
+
+  test('is undefined for the default command', () => {
+    expect(getCommand(argv('--plan', 'pro', '--bogus'))).toBeUndefined()
+  })
+})
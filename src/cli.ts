@@ -1,7 +1,19 @@
 import * as errore from 'errore'
 import { parseArgs } from 'node:util'
 import pkgJson from '../package.json'
-import { PLANS } from './config.ts'
+import { type Threshold, parseThreshold } from './check.ts'
+import {
+  BADGE_METRICS,
+  BADGE_STYLES,
+  type BadgeMetric,
+  type BadgeStyle,
+  DEFAULT_BADGE_LABEL,
+} from './badge.ts'
+import type { CacheMode } from './cache.ts'
+import { DEFAULT_CACHE_TTL, PLANS } from './config.ts'
+import { DEFAULT_LINE_TEMPLATE, LINE_TEMPLATE_FIELDS } from './display.ts'
+import { isValidDate } from './prorate.ts'
+import type { BillingPeriod } from './usage.ts'
 
 const VERSION = pkgJson.version
 
@@ -15,38 +27,461 @@ export class InvalidLimitError extends errore.createTaggedError({
   message: 'Invalid limit "$value". Must be a positive integer.',
 }) {}
 
+export class InvalidMonthError extends errore.createTaggedError({
+  name: 'InvalidMonthError',
+  message: 'Invalid month "$value". Must be in YYYY-MM format.',
+}) {}
+
+export class InvalidDateError extends errore.createTaggedError({
+  name: 'InvalidDateError',
+  message: 'Invalid date "$value". Must be in YYYY-MM-DD format.',
+}) {}
+
+export class InvalidMonthCountError extends errore.createTaggedError({
+  name: 'InvalidMonthCountError',
+  message:
+    'Invalid month count "$value". Must be an integer between 1 and $max.',
+}) {}
+
+export class InvalidOrgError extends errore.createTaggedError({
+  name: 'InvalidOrgError',
+  message: 'Invalid organization name "$org"',
+}) {}
+
+export class InvalidEnterpriseError extends errore.createTaggedError({
+  name: 'InvalidEnterpriseError',
+  message: 'Invalid enterprise slug "$enterprise"',
+}) {}
+
+export class InvalidCostCenterError extends errore.createTaggedError({
+  name: 'InvalidCostCenterError',
+  message: 'Invalid cost center ID "$costCenter"',
+}) {}
+
+export class InvalidFormatError extends errore.createTaggedError({
+  name: 'InvalidFormatError',
+  message: 'Invalid format "$format". Must be one of: $validFormats',
+}) {}
+
+export class InvalidTemplateError extends errore.createTaggedError({
+  name: 'InvalidTemplateError',
+  message: 'Unknown template field "$field". Must be one of: $validFields',
+}) {}
+
+export class InvalidBadgeStyleError extends errore.createTaggedError({
+  name: 'InvalidBadgeStyleError',
+  message: 'Invalid badge style "$style". Must be one of: $validStyles',
+}) {}
+
+export class InvalidBadgeMetricError extends errore.createTaggedError({
+  name: 'InvalidBadgeMetricError',
+  message: 'Invalid badge metric "$metric". Must be one of: $validMetrics',
+}) {}
+
+export class ConflictingOptionsError extends errore.createTaggedError({
+  name: 'ConflictingOptionsError',
+  message: 'Options $first and $second cannot be used together',
+}) {}
+
+export class MissingOptionError extends errore.createTaggedError({
+  name: 'MissingOptionError',
+  message: 'Option $option is required by the $command command',
+}) {}
+
+export class InvalidIntervalError extends errore.createTaggedError({
+  name: 'InvalidIntervalError',
+  message:
+    'Invalid $option interval "$value". Must be a number of seconds (or minutes with an "m" suffix), at least $min seconds',
+}) {}
+
+export class InvalidPortError extends errore.createTaggedError({
+  name: 'InvalidPortError',
+  message: 'Invalid port "$value". Must be a number between 1 and 65535',
+}) {}
+
+export class InvalidThresholdError extends errore.createTaggedError({
+  name: 'InvalidThresholdError',
+  message:
+    'Invalid $option threshold "$value". Must be a number of premium requests or a percentage (e.g. 80%)',
+}) {}
+
+export class DependentOptionError extends errore.createTaggedError({
+  name: 'DependentOptionError',
+  message: 'Option $option can only be used with $required',
+}) {}
+
+export class UnknownCommandError extends errore.createTaggedError({
+  name: 'UnknownCommandError',
+  message: 'Unknown command "$command". Must be one of: $validCommands',
+}) {}
+
+export class MissingArgumentError extends errore.createTaggedError({
+  name: 'MissingArgumentError',
+  message: 'Missing $argument argument of the $command command',
+}) {}
+
+export class UnexpectedArgumentError extends errore.createTaggedError({
+  name: 'UnexpectedArgumentError',
+  message: 'Unexpected argument "$argument" of the $command command',
+}) {}
+
 export class UnknownFlagError extends errore.createTaggedError({
   name: 'UnknownFlagError',
   message: '$reason',
 }) {}
 
+export const FORMATS = [
+  'text',
+  'json',
+  'line',
+  'csv',
+  'markdown',
+  'html',
+] as const
+
+export type OutputFormat = (typeof FORMATS)[number]
+
+export const COMMANDS = [
+  'history',
+  'users',
+  'check',
+  'serve',
+  'export',
+  'badge',
+  'config',
+] as const
+
+/**
+ * Commands using each option, `run` being the default command. Other
+ * commands reject the option rather than silently ignore it.
+ */
+const OPTION_COMMANDS = {
+  '--format': ['run', 'export'],
+  '--json': ['run', 'export'],
+  '--template': ['run'],
+  '--color': ['run', 'history', 'users'],
+  '--watch': ['run'],
+  '--month': ['run', 'history', 'users', 'check', 'export', 'badge'],
+  '--prev': ['run', 'history', 'users', 'check', 'export', 'badge'],
+  '--months': ['history', 'export'],
+  '--daily': ['run', 'export'],
+  '--roster': ['users'],
+  '--warn': ['check'],
+  '--fail': ['check'],
+  '--pace': ['check'],
+  '--port': ['serve'],
+  '--interval': ['serve'],
+  '--out': ['run', 'export', 'badge'],
+  '--label': ['badge'],
+  '--style': ['badge'],
+  '--metric': ['badge'],
+} as const
+
+export const CONFIG_ACTIONS = [
+  'get',
+  'set',
+  'unset',
+  'list',
+  'path',
+  'explain',
+] as const
+
+/** Arguments of each action of the config command */
+const CONFIG_ACTION_ARGUMENTS = {
+  get: ['<key>'],
+  set: ['<key>', '<value>'],
+  unset: ['<key>'],
+  list: [],
+  path: [],
+  explain: [],
+} as const
+
+export const DEFAULT_HISTORY_MONTHS = 6
+const MAX_HISTORY_MONTHS = 24
+
+export const DEFAULT_WATCH_INTERVAL = 60
+/** Keeps a forgotten pane or exporter from hammering the billing API */
+const MIN_REFRESH_INTERVAL = 10
+
+export const DEFAULT_SERVE_PORT = 9464
+export const DEFAULT_SERVE_INTERVAL = 300
+
 export type CliResult =
   | { action: 'help'; text: string }
   | { action: 'version'; text: string }
-  | { action: 'run'; plan?: string; limit?: number }
+  | {
+      action: 'run'
+      plan?: string
+      /** Day the plan changed, to prorate the limit of that month */
+      planSince?: string
+      limit?: number
+      format: OutputFormat
+      /** Billing month to report on, defaults to the current one */
+      period?: BillingPeriod | 'previous'
+      daily: boolean
+      /** Report on an organization instead of the authenticated user */
+      org?: string
+      /** Report on an enterprise, optionally narrowed to a cost center */
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      /** Seconds between refreshes of the live display */
+      watch?: number
+      /** Placeholders filled by the line format */
+      template?: string
+      /** Whether to color the output, defaults to NO_COLOR being unset */
+      color?: boolean
+      /** File to write the report to, instead of stdout */
+      out?: string
+    }
+  | {
+      action: 'history'
+      plan?: string
+      planSince?: string
+      limit?: number
+      months: number
+      /** Most recent billing month of the report, defaults to the current one */
+      period?: BillingPeriod | 'previous'
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      color?: boolean
+    }
+  | {
+      action: 'export'
+      plan?: string
+      planSince?: string
+      limit?: number
+      months: number
+      /** Most recent billing month of the export, defaults to the current one */
+      period?: BillingPeriod | 'previous'
+      daily: boolean
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      /** File to write the CSV to, instead of stdout */
+      out?: string
+    }
+  | {
+      action: 'users'
+      plan?: string
+      /** Individual allowance of each member */
+      limit?: number
+      period?: BillingPeriod | 'previous'
+      org: string
+      /** File listing member logins, instead of the org members API */
+      roster?: string
+      cache: CacheMode
+      color?: boolean
+    }
+  | {
+      action: 'check'
+      plan?: string
+      planSince?: string
+      limit?: number
+      period?: BillingPeriod | 'previous'
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      warn?: Threshold
+      fail?: Threshold
+      /** Prorate thresholds by the elapsed fraction of the month */
+      pace: boolean
+    }
+  | {
+      action: 'badge'
+      plan?: string
+      planSince?: string
+      limit?: number
+      period?: BillingPeriod | 'previous'
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      label: string
+      style: BadgeStyle
+      metric: BadgeMetric
+      /** File to write the SVG to, instead of stdout */
+      out?: string
+    }
+  | {
+      action: 'serve'
+      plan?: string
+      planSince?: string
+      limit?: number
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+      port: number
+      /** Seconds between refreshes from the billing API */
+      interval: number
+    }
+  | { action: 'config'; operation: 'list' | 'path' }
+  | { action: 'config'; operation: 'get' | 'unset'; key: string }
+  | { action: 'config'; operation: 'set'; key: string; value: string }
+  | {
+      action: 'config'
+      /** Show where the plan, limit and other settings come from */
+      operation: 'explain'
+      plan?: string
+      planSince?: string
+      limit?: number
+      org?: string
+      enterprise?: string
+      costCenter?: string
+      cache: CacheMode
+    }
+
+/** Options of every command, parsed as a whole */
+const OPTIONS = {
+  plan: { type: 'string', short: 'p' },
+  'plan-since': { type: 'string' },
+  limit: { type: 'string', short: 'l' },
+  format: { type: 'string', short: 'f' },
+  json: { type: 'boolean' },
+  template: { type: 'string', short: 't' },
+  color: { type: 'boolean' },
+  month: { type: 'string', short: 'm' },
+  prev: { type: 'boolean' },
+  months: { type: 'string', short: 'n' },
+  daily: { type: 'boolean', short: 'd' },
+  org: { type: 'string', short: 'o' },
+  roster: { type: 'string' },
+  enterprise: { type: 'string', short: 'e' },
+  'cost-center': { type: 'string' },
+  refresh: { type: 'boolean' },
+  offline: { type: 'boolean' },
+  watch: { type: 'string', short: 'w' },
+  warn: { type: 'string' },
+  fail: { type: 'string' },
+  pace: { type: 'boolean' },
+  port: { type: 'string' },
+  interval: { type: 'string' },
+  out: { type: 'string' },
+  label: { type: 'string' },
+  style: { type: 'string' },
+  metric: { type: 'string' },
+  help: { type: 'boolean', short: 'h' },
+  version: { type: 'boolean', short: 'v' },
+} as const
+
+/**
+ * Command of `argv` even when its options do not parse, so that check
+ * can tell its usage errors apart from its warn status
+ */
+export function getCommand(argv: string[]): string | undefined {
+  const parsed = parseArgs({
+    args: normalizeWatchArgs(argv),
+    options: OPTIONS,
+    strict: false,
+    allowPositionals: true,
+    allowNegative: true,
+  })
+  return parsed.positionals[2]
+}
 
+/** `plans` are the built-in plans merged with those of the config file */
 export function parseCliArgs(
   argv: string[],
-): CliResult | InvalidPlanError | InvalidLimitError | UnknownFlagError {
+  plans: Record<string, number> = PLANS,
+):
+  | CliResult
+  | InvalidPlanError
+  | InvalidLimitError
+  | InvalidFormatError
+  | InvalidTemplateError
+  | InvalidBadgeStyleError
+  | InvalidBadgeMetricError
+  | InvalidMonthError
+  | InvalidDateError
+  | InvalidMonthCountError
+  | InvalidOrgError
+  | InvalidEnterpriseError
+  | InvalidCostCenterError
+  | ConflictingOptionsError
+  | MissingOptionError
+  | DependentOptionError
+  | InvalidIntervalError
+  | InvalidPortError
+  | InvalidThresholdError
+  | UnknownCommandError
+  | MissingArgumentError
+  | UnexpectedArgumentError
+  | UnknownFlagError {
   let rawPlan: string | undefined
+  let planSince: string | undefined
   let rawLimit: string | undefined
+  let rawFormat: string | undefined
+  let json: boolean | undefined
+  let template: string | undefined
+  let color: boolean | undefined
+  let rawMonth: string | undefined
+  let prev: boolean | undefined
+  let rawMonths: string | undefined
+  let daily: boolean | undefined
+  let org: string | undefined
+  let roster: string | undefined
+  let enterprise: string | undefined
+  let costCenter: string | undefined
+  let refresh: boolean | undefined
+  let offline: boolean | undefined
+  let rawWatch: string | undefined
+  let rawWarn: string | undefined
+  let rawFail: string | undefined
+  let pace: boolean | undefined
+  let rawPort: string | undefined
+  let rawInterval: string | undefined
+  let out: string | undefined
+  let label: string | undefined
+  let rawStyle: string | undefined
+  let rawMetric: string | undefined
+  let command: string | undefined
+  let args: string[] = []
   let help: boolean | undefined
   let version: boolean | undefined
 
   try {
     const parsed = parseArgs({
-      args: argv,
-      options: {
-        plan: { type: 'string', short: 'p' },
-        limit: { type: 'string', short: 'l' },
-        help: { type: 'boolean', short: 'h' },
-        version: { type: 'boolean', short: 'v' },
-      },
+      args: normalizeWatchArgs(argv),
+      options: OPTIONS,
       strict: true,
       allowPositionals: true,
+      allowNegative: true,
     })
     rawPlan = parsed.values.plan
+    planSince = parsed.values['plan-since']
     rawLimit = parsed.values.limit
+    rawFormat = parsed.values.format
+    json = parsed.values.json
+    template = parsed.values.template
+    color = parsed.values.color
+    rawMonth = parsed.values.month
+    prev = parsed.values.prev
+    rawMonths = parsed.values.months
+    daily = parsed.values.daily
+    org = parsed.values.org
+    roster = parsed.values.roster
+    enterprise = parsed.values.enterprise
+    costCenter = parsed.values['cost-center']
+    refresh = parsed.values.refresh
+    offline = parsed.values.offline
+    rawWatch = parsed.values.watch
+    rawWarn = parsed.values.warn
+    rawFail = parsed.values.fail
+    pace = parsed.values.pace
+    rawPort = parsed.values.port
+    rawInterval = parsed.values.interval
+    out = parsed.values.out
+    label = parsed.values.label
+    rawStyle = parsed.values.style
+    rawMetric = parsed.values.metric
+    // Skip the runtime and script path
+    command = parsed.positionals[2]
+    args = parsed.positionals.slice(3)
     help = parsed.values.help
     version = parsed.values.version
   } catch (e) {
@@ -61,11 +496,48 @@ export function parseCliArgs(
 GitHub Copilot Premium Requests Usage Tracker v${VERSION}
 
 Usage:
-  gh copilot-usage [options]
+  gh copilot-usage [command] [options]
+
+Commands:
+  (default)           Show usage for a billing month
+  history             Show usage trends over the last months
+  users               Rank organization members by usage (requires --org)
+  check               Exit with 1 (warn) or 2 (fail) at thresholds, 3 on errors
+  serve               Export usage metrics for Prometheus at /metrics
+  export              Export per-model usage as CSV for a range of months
+  badge               Write a shields-style SVG badge of the usage
+  config <action>     Manage the config file (${CONFIG_ACTIONS.join(', ')})
+                      explain shows where each setting comes from
 
 Options:
-  --plan <name>       Set your Copilot plan (${Object.keys(PLANS).join(', ')})
+  --plan <name>       Set your Copilot plan (${Object.keys(plans).join(', ')})
+  --plan-since <date> Day the plan changed (YYYY-MM-DD), prorating that month's limit
   --limit <number>    Set custom monthly premium request limits
+  --format <format>   Set the output format (${FORMATS.join(', ')})
+  --json              Shorthand for --format json
+  --template <string> Fields of the line format (default: '${DEFAULT_LINE_TEMPLATE}')
+                      ${LINE_TEMPLATE_FIELDS.map((field) => `{${field}}`).join(' ')}
+  --no-color          Disable colors, also set by NO_COLOR
+  --month <YYYY-MM>   Show usage for a past billing month
+  --prev              Shorthand for the previous billing month
+  --daily             Chart per-day usage for the billing month (per-day rows in CSV)
+  --org <name>        Show usage for an organization (requires admin access)
+  --enterprise <slug> Show usage for an enterprise (requires admin access)
+  --cost-center <id>  Narrow enterprise usage to a cost center
+  --roster <file>     Read member logins from a file, one per line (users)
+  --months <number>   Number of months in the history (default: ${DEFAULT_HISTORY_MONTHS}) or export (default: 1)
+  --out <file>        Write the report, export or badge to a file instead of stdout
+  --label <text>      Label of the badge (default: ${DEFAULT_BADGE_LABEL})
+  --style <style>     Style of the badge (${BADGE_STYLES.join(', ')})
+  --metric <metric>   Metric of the badge (${BADGE_METRICS.join(', ')})
+  --refresh           Bypass cached API responses
+  --offline           Only use cached API responses, without network access
+  --watch [seconds]   Refresh the display live (default: every ${DEFAULT_WATCH_INTERVAL}s)
+  --warn <threshold>  Warning threshold, in requests or % of the limit (check)
+  --fail <threshold>  Failure threshold, in requests or % of the limit (check)
+  --pace              Prorate thresholds by the elapsed month (check)
+  --port <number>     Port of the metrics server (serve, default: ${DEFAULT_SERVE_PORT})
+  --interval <secs>   Seconds between refreshes (serve, default: ${DEFAULT_SERVE_INTERVAL})
   --help, -h          Show this help message
   --version, -v       Show version information
 
@@ -73,19 +545,53 @@ Configuration:
   The plan can be configured in multiple ways (in order of priority):
     1. Command line flag: --plan pro
     2. Environment variable: GH_COPILOT_PLAN=pro
-    3. gh config: gh config set copilot-usage.plan pro
-    4. Default: pro
+    3. Config file: gh copilot-usage config set plan pro
+    4. gh config: gh config set copilot-usage.plan pro
+    5. Detected from your Copilot subscription (cached for a day)
+    6. Default: pro
 
   The limit can be configured in multiple ways (in order of priority):
     1. Command line flag: --limit 300
     2. Environment variable: GH_COPILOT_LIMIT=300
-    3. gh config: gh config set copilot-usage.limit 300
-    4. Plan's default limit (based on selected plan)
+    3. Config file: gh copilot-usage config set limit 300
+    4. gh config: gh config set copilot-usage.limit 300
+    5. Plan's default limit (per seat with --org), prorated in the month of
+       a plan change set with --plan-since or the plan_since config key
+       (from the previous_plan config key, default: pro)
+
+  Billing cycles reset at 00:00 UTC on the 1st, also shown in the local time
+  zone or the timezone config key (e.g. Pacific/Auckland).
+
+  The config file lives at $XDG_CONFIG_HOME/gh-copilot-usage/config.json
+  (default: ~/.config), see \`gh copilot-usage config path\`.
+
+  API responses are cached for GH_COPILOT_CACHE_TTL or the cache_ttl config
+  key seconds (default: ${DEFAULT_CACHE_TTL}) under $XDG_CACHE_HOME/gh-copilot-usage.
 
 Examples:
   gh copilot-usage
   gh copilot-usage --plan pro+
+  gh copilot-usage --plan pro+ --plan-since 2025-06-12
   gh copilot-usage --limit 500
+  gh copilot-usage --json | jq '.totalUsage'
+  gh copilot-usage --format line --template '{used}/{limit} {pct}'
+  gh copilot-usage --format markdown | gh issue create --title Usage --body-file -
+  gh copilot-usage --format html --out report.html
+  gh copilot-usage --month 2025-04
+  gh copilot-usage --daily
+  gh copilot-usage --org my-org --plan business
+  gh copilot-usage --enterprise my-ent --cost-center 1a2b3c --plan enterprise
+  gh copilot-usage --offline
+  gh copilot-usage --watch 30
+  gh copilot-usage history --months 12
+  gh copilot-usage export --month 2025-06 --months 6 --out usage.csv
+  gh copilot-usage users --org my-org --plan business
+  gh copilot-usage check --warn 50% --fail 80%
+  gh copilot-usage check --fail 100% --pace
+  gh copilot-usage serve --port 9464 --interval 5m
+  gh copilot-usage badge --metric remaining --out copilot.svg
+  gh copilot-usage config set on_threshold.80 'notify-send "Copilot at 80%"'
+  gh copilot-usage config explain --org my-org
   GH_COPILOT_LIMIT=500 gh copilot-usage
 `,
     }
@@ -95,17 +601,58 @@ Examples:
     return { action: 'version', text: VERSION }
   }
 
+  if (command !== undefined && !isCommand(command)) {
+    return new UnknownCommandError({
+      command,
+      validCommands: COMMANDS.join(', '),
+    })
+  }
+  const values: Record<keyof typeof OPTION_COMMANDS, unknown> = {
+    '--format': rawFormat,
+    '--json': json,
+    '--template': template,
+    '--color': color,
+    '--watch': rawWatch,
+    '--month': rawMonth,
+    '--prev': prev,
+    '--months': rawMonths,
+    '--daily': daily,
+    '--roster': roster,
+    '--warn': rawWarn,
+    '--fail': rawFail,
+    '--pace': pace,
+    '--port': rawPort,
+    '--interval': rawInterval,
+    '--out': out,
+    '--label': label,
+    '--style': rawStyle,
+    '--metric': rawMetric,
+  }
+  for (const [option, commands] of Object.entries(OPTION_COMMANDS)) {
+    const used: readonly string[] = commands
+    const value = values[option as keyof typeof values]
+    if (value !== undefined && !used.includes(command ?? 'run')) {
+      return new DependentOptionError({
+        option,
+        required: formatCommands(used),
+      })
+    }
+  }
+
   let plan: string | undefined
   if (rawPlan !== undefined) {
     const planKey = rawPlan.toLowerCase()
-    if (!PLANS[planKey]) {
+    if (!plans[planKey]) {
       return new InvalidPlanError({
         plan: rawPlan,
-        validPlans: Object.keys(PLANS).join(', '),
+        validPlans: Object.keys(plans).join(', '),
       })
     }
     plan = planKey
   }
+  if (planSince !== undefined && !isValidDate(planSince)) {
+    return new InvalidDateError({ value: planSince })
+  }
 
   let limit: number | undefined
   if (rawLimit !== undefined) {
@@ -116,5 +663,458 @@ Examples:
     limit = value
   }
 
-  return { action: 'run', plan, limit }
+  let format: OutputFormat = 'text'
+  if (rawFormat !== undefined) {
+    const formatKey = rawFormat.toLowerCase()
+    if (!isOutputFormat(formatKey)) {
+      return new InvalidFormatError({
+        format: rawFormat,
+        validFormats: FORMATS.join(', '),
+      })
+    }
+    format = formatKey
+  }
+  if (json) {
+    if (format !== 'json' && rawFormat !== undefined) {
+      return new ConflictingOptionsError({
+        first: '--json',
+        second: `--format ${rawFormat}`,
+      })
+    }
+    format = 'json'
+  }
+  if (template !== undefined) {
+    if (format !== 'line') {
+      return new DependentOptionError({
+        option: '--template',
+        required: '--format line',
+      })
+    }
+    for (const [, field] of template.matchAll(/\{(\w+)\}/g)) {
+      if (!(LINE_TEMPLATE_FIELDS as readonly string[]).includes(field!)) {
+        return new InvalidTemplateError({
+          field: field!,
+          validFields: LINE_TEMPLATE_FIELDS.join(', '),
+        })
+      }
+    }
+  }
+
+  let period: BillingPeriod | 'previous' | undefined
+  if (rawMonth !== undefined) {
+    if (prev) {
+      return new ConflictingOptionsError({ first: '--month', second: '--prev' })
+    }
+    const match = /^(\d{4})-(\d{2})$/.exec(rawMonth)
+    const month = match ? parseInt(match[2]!, 10) : 0
+    if (!match || month < 1 || month > 12) {
+      return new InvalidMonthError({ value: rawMonth })
+    }
+    period = { year: parseInt(match[1]!, 10), month }
+  } else if (prev) {
+    period = 'previous'
+  }
+
+  let cache: CacheMode = 'default'
+  if (refresh) {
+    if (offline) {
+      return new ConflictingOptionsError({
+        first: '--refresh',
+        second: '--offline',
+      })
+    }
+    cache = 'refresh'
+  } else if (offline) {
+    cache = 'offline'
+  }
+
+  let watch: number | undefined
+  if (rawWatch !== undefined) {
+    watch = rawWatch === '' ? DEFAULT_WATCH_INTERVAL : parseInterval(rawWatch)
+    if (watch === undefined) {
+      return new InvalidIntervalError({
+        option: '--watch',
+        value: rawWatch,
+        min: MIN_REFRESH_INTERVAL,
+      })
+    }
+    if (cache === 'offline') {
+      return new ConflictingOptionsError({
+        first: '--watch',
+        second: '--offline',
+      })
+    }
+    if (format !== 'text') {
+      return new ConflictingOptionsError({
+        first: '--watch',
+        second: `--format ${format}`,
+      })
+    }
+  }
+
+  if (org !== undefined && !isValidSlug(org)) {
+    return new InvalidOrgError({ org })
+  }
+  if (enterprise !== undefined) {
+    if (!isValidSlug(enterprise)) {
+      return new InvalidEnterpriseError({ enterprise })
+    }
+    if (org !== undefined) {
+      return new ConflictingOptionsError({
+        first: '--org',
+        second: '--enterprise',
+      })
+    }
+  }
+  if (costCenter !== undefined) {
+    if (enterprise === undefined) {
+      return new DependentOptionError({
+        option: '--cost-center',
+        required: '--enterprise',
+      })
+    }
+    if (!/^[\w-]+$/.test(costCenter)) {
+      return new InvalidCostCenterError({ costCenter })
+    }
+  }
+
+  if (command === 'config') {
+    return parseConfigArgs(args, {
+      plan,
+      planSince,
+      limit,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+    })
+  }
+
+  let months: number | undefined
+  if (rawMonths !== undefined) {
+    months = Number(rawMonths)
+    if (
+      !Number.isInteger(months) ||
+      months < 1 ||
+      months > MAX_HISTORY_MONTHS
+    ) {
+      return new InvalidMonthCountError({
+        value: rawMonths,
+        max: MAX_HISTORY_MONTHS,
+      })
+    }
+  }
+
+  if (command === 'history') {
+    return {
+      action: 'history',
+      plan,
+      planSince,
+      limit,
+      months: months ?? DEFAULT_HISTORY_MONTHS,
+      period,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+      color,
+    }
+  }
+
+  if (command === 'export') {
+    if (format !== 'text' && format !== 'csv') {
+      return new ConflictingOptionsError({
+        first: `--format ${format}`,
+        second: 'the export command',
+      })
+    }
+    return {
+      action: 'export',
+      plan,
+      planSince,
+      limit,
+      months: months ?? 1,
+      period,
+      daily: daily ?? false,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+      out,
+    }
+  }
+  if (command === 'badge') {
+    let style: BadgeStyle = 'flat'
+    if (rawStyle !== undefined) {
+      if (!isBadgeStyle(rawStyle)) {
+        return new InvalidBadgeStyleError({
+          style: rawStyle,
+          validStyles: BADGE_STYLES.join(', '),
+        })
+      }
+      style = rawStyle
+    }
+    let metric: BadgeMetric = 'percentage'
+    if (rawMetric !== undefined) {
+      if (!isBadgeMetric(rawMetric)) {
+        return new InvalidBadgeMetricError({
+          metric: rawMetric,
+          validMetrics: BADGE_METRICS.join(', '),
+        })
+      }
+      metric = rawMetric
+    }
+    return {
+      action: 'badge',
+      plan,
+      planSince,
+      limit,
+      period,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+      label: label ?? DEFAULT_BADGE_LABEL,
+      style,
+      metric,
+      out,
+    }
+  }
+  if (out !== undefined && (command !== undefined || format === 'text')) {
+    return new DependentOptionError({
+      option: '--out',
+      required: 'the export or badge command, or a --format other than text',
+    })
+  }
+
+  if (command === 'check') {
+    const warn = rawWarn === undefined ? undefined : parseThreshold(rawWarn)
+    if (warn === undefined && rawWarn !== undefined) {
+      return new InvalidThresholdError({ option: '--warn', value: rawWarn })
+    }
+    const fail = rawFail === undefined ? undefined : parseThreshold(rawFail)
+    if (fail === undefined && rawFail !== undefined) {
+      return new InvalidThresholdError({ option: '--fail', value: rawFail })
+    }
+    return {
+      action: 'check',
+      plan,
+      planSince,
+      limit,
+      period,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+      warn,
+      fail,
+      pace: pace ?? false,
+    }
+  }
+  if (command === 'serve') {
+    // Every refresh of the exporter hits the API
+    if (cache === 'offline') {
+      return new ConflictingOptionsError({
+        first: 'the serve command',
+        second: '--offline',
+      })
+    }
+    let port = DEFAULT_SERVE_PORT
+    if (rawPort !== undefined) {
+      port = Number(rawPort)
+      if (!Number.isInteger(port) || port < 1 || port > 65535) {
+        return new InvalidPortError({ value: rawPort })
+      }
+    }
+    let interval = DEFAULT_SERVE_INTERVAL
+    if (rawInterval !== undefined) {
+      const parsed = parseInterval(rawInterval)
+      if (parsed === undefined) {
+        return new InvalidIntervalError({
+          option: '--interval',
+          value: rawInterval,
+          min: MIN_REFRESH_INTERVAL,
+        })
+      }
+      interval = parsed
+    }
+    return {
+      action: 'serve',
+      plan,
+      planSince,
+      limit,
+      org,
+      enterprise,
+      costCenter,
+      cache,
+      port,
+      interval,
+    }
+  }
+  if (command === 'users') {
+    if (org === undefined) {
+      return new MissingOptionError({ option: '--org', command: 'users' })
+    }
+    // Members have their own plans, the change is the organization's
+    if (planSince !== undefined) {
+      return new ConflictingOptionsError({
+        first: '--plan-since',
+        second: 'the users command',
+      })
+    }
+    return { action: 'users', plan, limit, period, org, roster, cache, color }
+  }
+
+  return {
+    action: 'run',
+    plan,
+    planSince,
+    limit,
+    format,
+    period,
+    daily: daily ?? false,
+    org,
+    enterprise,
+    costCenter,
+    cache,
+    watch,
+    template,
+    color,
+    out,
+  }
+}
+
+/**
+ * Values of the config command are validated against the config schema,
+ * `explain` resolves settings with the same options as other commands.
+ */
+function parseConfigArgs(
+  args: string[],
+  options: Omit<
+    Extract<CliResult, { operation: 'explain' }>,
+    'action' | 'operation'
+  >,
+):
+  | CliResult
+  | UnknownCommandError
+  | MissingArgumentError
+  | UnexpectedArgumentError
+  | DependentOptionError {
+  const [operation, key, value] = args
+  if (operation === undefined) {
+    return new MissingArgumentError({ argument: '<action>', command: 'config' })
+  }
+  if (!(CONFIG_ACTIONS as readonly string[]).includes(operation)) {
+    return new UnknownCommandError({
+      command: `config ${operation}`,
+      validCommands: CONFIG_ACTIONS.map((action) => `config ${action}`).join(
+        ', ',
+      ),
+    })
+  }
+
+  const expected: readonly string[] =
+    CONFIG_ACTION_ARGUMENTS[operation as (typeof CONFIG_ACTIONS)[number]]
+  const missing = expected[args.length - 1]
+  if (missing !== undefined) {
+    return new MissingArgumentError({
+      argument: missing,
+      command: `config ${operation}`,
+    })
+  }
+  const unexpected = args[expected.length + 1]
+  if (unexpected !== undefined) {
+    return new UnexpectedArgumentError({
+      argument: unexpected,
+      command: `config ${operation}`,
+    })
+  }
+
+  // Other actions read or write the config file alone
+  if (operation !== 'explain') {
+    for (const [option, used] of [
+      ['--plan', options.plan !== undefined],
+      ['--plan-since', options.planSince !== undefined],
+      ['--limit', options.limit !== undefined],
+      ['--org', options.org !== undefined],
+      ['--enterprise', options.enterprise !== undefined],
+      ['--cost-center', options.costCenter !== undefined],
+      ['--refresh', options.cache === 'refresh'],
+      ['--offline', options.cache === 'offline'],
+    ] as const) {
+      if (used) {
+        return new DependentOptionError({
+          option,
+          required: 'the config explain command',
+        })
+      }
+    }
+  }
+
+  switch (operation) {
+    case 'list':
+    case 'path':
+      return { action: 'config', operation }
+    case 'explain':
+      return { action: 'config', operation, ...options }
+    case 'get':
+    case 'unset':
+      return { action: 'config', operation, key: key! }
+    default:
+      return { action: 'config', operation: 'set', key: key!, value: value! }
+  }
+}
+
+const INTERVAL_PATTERN = /^(\d+)([sm]?)$/
+
+/** Seconds of `30`, `30s` or `5m`, undefined when invalid or too short */
+function parseInterval(raw: string): number | undefined {
+  const match = INTERVAL_PATTERN.exec(raw)
+  if (!match) return undefined
+  const seconds = parseInt(match[1]!, 10) * (match[2] === 'm' ? 60 : 1)
+  return seconds >= MIN_REFRESH_INTERVAL ? seconds : undefined
+}
+
+/**
+ * `--watch` takes an optional interval, which parseArgs has no notion of:
+ * give it an explicit empty value unless an interval follows.
+ */
+function normalizeWatchArgs(argv: string[]): string[] {
+  return argv.map((arg, index) => {
+    if (arg !== '--watch' && arg !== '-w') return arg
+    const next = argv[index + 1]
+    return next !== undefined && INTERVAL_PATTERN.test(next) ? arg : '--watch='
+  })
+}
+
+/** GitHub organization and enterprise slugs */
+function isValidSlug(value: string): boolean {
+  return /^[a-z\d](?:[a-z\d-]*[a-z\d])?$/i.test(value)
+}
+
+function isOutputFormat(value: string): value is OutputFormat {
+  return (FORMATS as readonly string[]).includes(value)
+}
+
+function isCommand(value: string): value is (typeof COMMANDS)[number] {
+  return (COMMANDS as readonly string[]).includes(value)
+}
+
+/** e.g. `the default or export command` */
+function formatCommands(commands: readonly string[]): string {
+  const names = commands.map((command) =>
+    command === 'run' ? 'default' : command,
+  )
+  const last = names.pop()
+  return names.length > 0
+    ? `the ${names.join(', ')} or ${last} command`
+    : `the ${last} command`
+}
+
+function isBadgeStyle(value: string): value is BadgeStyle {
+  return (BADGE_STYLES as readonly string[]).includes(value)
+}
+
+function isBadgeMetric(value: string): value is BadgeMetric {
+  return (BADGE_METRICS as readonly string[]).includes(value)
 }
@@ -1,5 +1,36 @@
-import { describe, expect, test } from 'bun:test'
-import { ConfigReadError, resolveLimit, resolvePlan } from './config.ts'
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  ConfigFileError,
+  ConfigReadError,
+  DEFAULT_CACHE_TTL,
+  InvalidConfigValueError,
+  UnknownConfigKeyError,
+  explainCacheTtl,
+  explainLimit,
+  explainPlan,
+  explainTimeZone,
+  formatResolution,
+  getAllowanceLimit,
+  getConfigPath,
+  getConfigValue,
+  getModelLimits,
+  getPlanChangeSegments,
+  getPlanLabel,
+  getPlans,
+  listConfigValues,
+  readConfigFile,
+  resolveCacheTtl,
+  resolveLimit,
+  resolveLimitOverride,
+  resolvePlan,
+  resolveTimeZone,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfigFile,
+} from './config.ts'
 
 describe('resolvePlan', () => {
   test('CLI arg takes highest priority', async () => {
@@ -30,6 +61,32 @@ describe('resolvePlan', () => {
     expect(result).toBe('pro+')
   })
 
+  test('config file used before gh config', async () => {
+    const shellExec = async () => { throw new Error('should not call') }
+    const result = await resolvePlan(undefined, {}, shellExec, {
+      plan: 'business',
+    })
+    expect(result).toBe('business')
+  })
+
+  test('env var takes priority over the config file', async () => {
+    const shellExec = async () => { throw new Error('should not call') }
+    const env = { GH_COPILOT_PLAN: 'free' }
+    const result = await resolvePlan(undefined, env, shellExec, {
+      plan: 'business',
+    })
+    expect(result).toBe('free')
+  })
+
+  test('env var accepts custom plans of the config file', async () => {
+    const shellExec = async () => { throw new Error('should not call') }
+    const env = { GH_COPILOT_PLAN: 'acme' }
+    const result = await resolvePlan(undefined, env, shellExec, {
+      plans: { acme: { allowance: 5000 } },
+    })
+    expect(result).toBe('acme')
+  })
+
   test('gh config used when no CLI arg and no env var', async () => {
     const shellExec = async () => 'pro+\n'
     const result = await resolvePlan(undefined, {}, shellExec)
@@ -42,6 +99,49 @@ describe('resolvePlan', () => {
     expect(result).toBe('pro')
   })
 
+  test('warns about every invalid source it skips', async () => {
+    const shellExec = async () => 'unknown_plan\n'
+    const env = { GH_COPILOT_PLAN: 'invalid' }
+    const warnings: string[] = []
+    const warn = (message: string) => warnings.push(message)
+    const result = await resolvePlan(
+      undefined,
+      env,
+      shellExec,
+      {},
+      undefined,
+      warn,
+    )
+    expect(result).toBe('pro')
+    expect(warnings).toEqual([
+      'GH_COPILOT_PLAN: "invalid" is not a known plan, ignored',
+      'gh config: "unknown_plan" is not a known plan, ignored',
+    ])
+  })
+
+  test('detected plan used when nothing is configured', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const detectPlan = async () => 'enterprise'
+    const result = await resolvePlan(undefined, {}, shellExec, {}, detectPlan)
+    expect(result).toBe('enterprise')
+  })
+
+  test('gh config takes priority over the detected plan', async () => {
+    const shellExec = async () => 'pro+\n'
+    const detectPlan = async () => { throw new Error('should not call') }
+    const result = await resolvePlan(undefined, {}, shellExec, {}, detectPlan)
+    expect(result).toBe('pro+')
+  })
+
+  test('falls back to the default when detection fails', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    for (const detected of [new Error('HTTP 404'), undefined, 'platinum']) {
+      const detectPlan = async () => detected
+      const result = await resolvePlan(undefined, {}, shellExec, {}, detectPlan)
+      expect(result).toBe('pro')
+    }
+  })
+
   test('falls back to "pro" when nothing is configured', async () => {
     const shellExec = async () => { throw new Error('config not set') }
     const result = await resolvePlan(undefined, {}, shellExec)
@@ -78,6 +178,14 @@ describe('resolveLimit', () => {
     expect(result).toBe(300)
   })
 
+  test('config file used before gh config', async () => {
+    const shellExec = async () => { throw new Error('should not call') }
+    const result = await resolveLimit(undefined, 'pro', {}, shellExec, 1, {
+      limit: 450,
+    })
+    expect(result).toBe(450)
+  })
+
   test('gh config used when no CLI arg and no env var', async () => {
     const shellExec = async () => '1200\n'
     const result = await resolveLimit(undefined, 'pro', {}, shellExec)
@@ -108,10 +216,624 @@ describe('resolveLimit', () => {
     expect(result).toBe(1000)
   })
 
+  test('plan default is multiplied by the seat count', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const result = await resolveLimit(undefined, 'business', {}, shellExec, 10)
+    expect(result).toBe(3000)
+  })
+
+  test('plan default of a custom plan is its allowance', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const config = { plans: { acme: { allowance: 700 } } }
+    const result = await resolveLimit(
+      undefined,
+      'acme',
+      {},
+      shellExec,
+      3,
+      config,
+    )
+    expect(result).toBe(2100)
+  })
+
+  test('explicit limit is not multiplied by the seat count', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const result = await resolveLimit(2000, 'business', {}, shellExec, 10)
+    expect(result).toBe(2000)
+  })
+
   test('env var ignored if negative', async () => {
     const shellExec = async () => { throw new Error('config not set') }
     const env = { GH_COPILOT_LIMIT: '-5' }
     const result = await resolveLimit(undefined, 'pro', env, shellExec)
     expect(result).toBe(300)
   })
+
+  test('warns about an invalid limit it skips', async () => {
+    const shellExec = async () => '1200\n'
+    const env = { GH_COPILOT_LIMIT: 'abc' }
+    const warnings: string[] = []
+    const warn = (message: string) => warnings.push(message)
+    const result = await resolveLimit(
+      undefined,
+      'pro',
+      env,
+      shellExec,
+      1,
+      {},
+      undefined,
+      warn,
+    )
+    expect(result).toBe(1200)
+    expect(warnings).toEqual([
+      'GH_COPILOT_LIMIT: "abc" is not a positive integer, ignored',
+    ])
+  })
+
+  test('does not warn about sources below the one used', async () => {
+    const shellExec = async () => 'abc\n'
+    const warnings: string[] = []
+    const warn = (message: string) => warnings.push(message)
+    const result = await resolveLimit(
+      500,
+      'pro',
+      {},
+      shellExec,
+      1,
+      {},
+      undefined,
+      warn,
+    )
+    expect(result).toBe(500)
+    expect(warnings).toEqual([])
+  })
+})
+
+describe('resolveLimitOverride', () => {
+  test('explicit limit from any source', async () => {
+    const shellExec = async () => '1200\n'
+    expect(await resolveLimitOverride(500, {}, shellExec)).toBe(500)
+    const env = { GH_COPILOT_LIMIT: '750' }
+    expect(await resolveLimitOverride(undefined, env, shellExec)).toBe(750)
+    expect(await resolveLimitOverride(undefined, {}, shellExec)).toBe(1200)
+  })
+
+  test('undefined when the limit falls back to the allowance', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const env = { GH_COPILOT_LIMIT: 'abc' }
+    const result = await resolveLimitOverride(undefined, env, shellExec)
+    expect(result).toBeUndefined()
+  })
+
+  test('warns about an invalid limit it skips', async () => {
+    const shellExec = async () => 'none\n'
+    const warnings: string[] = []
+    const warn = (message: string) => warnings.push(message)
+    const result = await resolveLimitOverride(
+      undefined,
+      {},
+      shellExec,
+      {},
+      warn,
+    )
+    expect(result).toBeUndefined()
+    expect(warnings).toEqual([
+      'gh config: "none" is not a positive integer, ignored',
+    ])
+  })
+})
+
+describe('getAllowanceLimit', () => {
+  test('multiplies the allowance by the seat count', () => {
+    expect(getAllowanceLimit('business', 10, {})).toBe(3000)
+  })
+
+  test('prorates the allowance after a plan change', () => {
+    const june = { year: 2025, month: 6 }
+    const segments = getPlanChangeSegments({}, 'pro+', '2025-06-12', june)
+    expect(getAllowanceLimit('pro+', 1, {}, segments)).toBe(1060)
+  })
+})
+
+describe('resolveCacheTtl', () => {
+  test('env var used when set', () => {
+    expect(resolveCacheTtl({ GH_COPILOT_CACHE_TTL: '60' })).toBe(60)
+  })
+
+  test('zero disables freshness', () => {
+    expect(resolveCacheTtl({ GH_COPILOT_CACHE_TTL: '0' })).toBe(0)
+  })
+
+  test('config file used when the env var is unset or invalid', () => {
+    expect(resolveCacheTtl({}, { cache_ttl: 60 })).toBe(60)
+    expect(
+      resolveCacheTtl({ GH_COPILOT_CACHE_TTL: 'x' }, { cache_ttl: 60 }),
+    ).toBe(60)
+    expect(
+      resolveCacheTtl({ GH_COPILOT_CACHE_TTL: '30' }, { cache_ttl: 60 }),
+    ).toBe(30)
+  })
+
+  test('falls back to the default when unset or invalid', () => {
+    expect(resolveCacheTtl({})).toBe(DEFAULT_CACHE_TTL)
+    expect(resolveCacheTtl({ GH_COPILOT_CACHE_TTL: '-5' })).toBe(
+      DEFAULT_CACHE_TTL,
+    )
+  })
+
+  test('warns about an invalid env var', () => {
+    const warnings: string[] = []
+    const warn = (message: string) => warnings.push(message)
+    const env = { GH_COPILOT_CACHE_TTL: 'x' }
+    expect(resolveCacheTtl(env, {}, warn)).toBe(DEFAULT_CACHE_TTL)
+    expect(warnings).toEqual([
+      'GH_COPILOT_CACHE_TTL: "x" is not a number of seconds, ignored',
+    ])
+  })
+})
+
+describe('readConfigFile', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gh-copilot-usage-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('lives under XDG_CONFIG_HOME when set', () => {
+    expect(getConfigPath({ XDG_CONFIG_HOME: '/tmp/config' })).toBe(
+      '/tmp/config/gh-copilot-usage/config.json',
+    )
+  })
+
+  test('a missing file is an empty config', async () => {
+    const result = await readConfigFile(join(dir, 'config.json'))
+    expect(result).toEqual({})
+  })
+
+  test('reads threshold hooks', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, JSON.stringify({ on_threshold: { 50: 'echo hi' } }))
+    const result = await readConfigFile(path)
+    expect(result).toEqual({ on_threshold: { '50': 'echo hi' } })
+  })
+
+  test('returns ConfigFileError for invalid JSON', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, '{ on_threshold')
+    const result = await readConfigFile(path)
+    expect(result).toBeInstanceOf(ConfigFileError)
+  })
+
+  test('reads the plan and limit', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, JSON.stringify({ plan: 'Pro+', limit: 2000 }))
+    const result = await readConfigFile(path)
+    expect(result).toEqual({ plan: 'pro+', limit: 2000 })
+  })
+
+  test('returns ConfigFileError for unknown keys', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, JSON.stringify({ plna: 'pro' }))
+    const result = await readConfigFile(path)
+    expect(result).toBeInstanceOf(ConfigFileError)
+    expect(result).toHaveProperty('message', expect.stringContaining('plna'))
+  })
+
+  test('returns ConfigFileError for an unknown plan', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, JSON.stringify({ plan: 'platinum' }))
+    const result = await readConfigFile(path)
+    expect(result).toBeInstanceOf(ConfigFileError)
+    expect(result).toHaveProperty(
+      'message',
+      expect.stringContaining('plan: Expected one of: free, pro'),
+    )
+  })
+
+  test('reads custom plans, which the plan can refer to', async () => {
+    const path = join(dir, 'config.json')
+    const plans = {
+      acme: {
+        allowance: 5000,
+        label: 'Acme Enterprise',
+        overage_price: 0.03,
+        models: { 'claude-opus-4': 500 },
+      },
+    }
+    await Bun.write(path, JSON.stringify({ plan: 'acme', plans }))
+    const result = await readConfigFile(path)
+    expect(result).toEqual({ plan: 'acme', plans })
+  })
+
+  test('returns ConfigFileError for invalid custom plans', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(
+      path,
+      JSON.stringify({ plans: { acme: { label: 'Acme' } } }),
+    )
+    const result = await readConfigFile(path)
+    expect(result).toBeInstanceOf(ConfigFileError)
+    expect(result).toHaveProperty(
+      'message',
+      expect.stringContaining('plans.acme.allowance'),
+    )
+  })
+
+  test('written config is read back', async () => {
+    const path = join(dir, 'gh-copilot-usage', 'config.json')
+    const config = { plan: 'business', on_threshold: { '80': 'echo hi' } }
+    expect(await writeConfigFile(path, config)).toBeUndefined()
+    expect(await readConfigFile(path)).toEqual(config)
+  })
+
+  test('returns ConfigFileError for invalid values', async () => {
+    const path = join(dir, 'config.json')
+    await Bun.write(path, JSON.stringify({ on_threshold: { half: 'echo' } }))
+    const result = await readConfigFile(path)
+    expect(result).toBeInstanceOf(ConfigFileError)
+    expect(result).toHaveProperty('message', expect.stringContaining('half'))
+  })
+})
+
+describe('config values', () => {
+  test('sets and gets values by key', () => {
+    const config = setConfigValue({}, 'limit', '500')
+    expect(config).toEqual({ limit: 500 })
+    if (config instanceof Error) return
+    const withHook = setConfigValue(config, 'on_threshold.80', 'echo hi')
+    expect(withHook).toEqual({ limit: 500, on_threshold: { '80': 'echo hi' } })
+    if (withHook instanceof Error) return
+    expect(getConfigValue(withHook, 'limit')).toBe('500')
+    expect(getConfigValue(withHook, 'on_threshold.80')).toBe('echo hi')
+    expect(getConfigValue(withHook, 'plan')).toBeUndefined()
+  })
+
+  test('accepts a cache TTL of zero seconds', () => {
+    expect(setConfigValue({}, 'cache_ttl', '0')).toEqual({ cache_ttl: 0 })
+  })
+
+  test('accepts IANA time zones', () => {
+    expect(setConfigValue({}, 'timezone', 'Pacific/Auckland')).toEqual({
+      timezone: 'Pacific/Auckland',
+    })
+  })
+
+  test('normalises plans to lowercase', () => {
+    expect(setConfigValue({}, 'plan', 'Enterprise')).toEqual({
+      plan: 'enterprise',
+    })
+  })
+
+  test('returns InvalidConfigValueError for invalid values', () => {
+    for (const [key, value] of [
+      ['plan', 'platinum'],
+      ['limit', 'lots'],
+      ['limit', '0'],
+      ['limit', '1.5'],
+      ['limit', ''],
+      ['timezone', 'Mars/Olympus_Mons'],
+      ['cache_ttl', '-1'],
+      ['cache_ttl', '1.5'],
+    ]) {
+      expect(setConfigValue({}, key!, value!)).toBeInstanceOf(
+        InvalidConfigValueError,
+      )
+    }
+    expect(setConfigValue({}, 'limit', '-5')).toHaveProperty(
+      'message',
+      'Invalid value "-5" for config key "limit": Expected a positive integer',
+    )
+  })
+
+  test('returns UnknownConfigKeyError for unknown keys', () => {
+    expect(setConfigValue({}, 'theme', 'dark')).toBeInstanceOf(
+      UnknownConfigKeyError,
+    )
+    expect(getConfigValue({}, 'on_threshold.half')).toBeInstanceOf(
+      UnknownConfigKeyError,
+    )
+    expect(unsetConfigValue({}, 'on_threshold')).toBeInstanceOf(
+      UnknownConfigKeyError,
+    )
+  })
+
+  test('unsets values and drops empty hooks', () => {
+    const config = {
+      plan: 'pro',
+      on_threshold: { '50': 'echo half', '80': 'echo most' },
+    }
+    expect(unsetConfigValue(config, 'plan')).toEqual({
+      on_threshold: { '50': 'echo half', '80': 'echo most' },
+    })
+    const withoutHalf = unsetConfigValue(config, 'on_threshold.50')
+    expect(withoutHalf).toEqual({
+      plan: 'pro',
+      on_threshold: { '80': 'echo most' },
+    })
+    if (withoutHalf instanceof Error) return
+    expect(unsetConfigValue(withoutHalf, 'on_threshold.80')).toEqual({
+      plan: 'pro',
+    })
+  })
+
+  test('keeps the allowance of custom plans', () => {
+    const config = {
+      plan: 'team',
+      plans: { team: { allowance: 500, label: 'Team' } },
+    }
+    const result = unsetConfigValue(config, 'plans.team.allowance')
+    expect(result).toBeInstanceOf(InvalidConfigValueError)
+    expect(unsetConfigValue(config, 'plans.team.label')).toEqual({
+      plan: 'team',
+      plans: { team: { allowance: 500 } },
+    })
+  })
+
+  test('sets fields of custom plans, with dotted model names', () => {
+    const config = setConfigValue({}, 'plans.acme.allowance', '5000')
+    expect(config).toEqual({ plans: { acme: { allowance: 5000 } } })
+    if (config instanceof Error) return
+    expect(
+      setConfigValue(config, 'plans.acme.models.claude-sonnet-4.5', '800'),
+    ).toEqual({
+      plans: {
+        acme: { allowance: 5000, models: { 'claude-sonnet-4.5': 800 } },
+      },
+    })
+    expect(setConfigValue(config, 'plan', 'acme')).toEqual({
+      plans: { acme: { allowance: 5000 } },
+      plan: 'acme',
+    })
+  })
+
+  test('reports the missing allowance of a new custom plan', () => {
+    expect(setConfigValue({}, 'plans.acme.label', 'Acme')).toHaveProperty(
+      'message',
+      'Invalid value "Acme" for config key "plans.acme.label": plans.acme.allowance: Expected a positive integer',
+    )
+    expect(setConfigValue({}, 'plans.Acme.allowance', '10')).toBeInstanceOf(
+      InvalidConfigValueError,
+    )
+  })
+
+  test('lists every value as key-value pairs', () => {
+    expect(
+      listConfigValues({
+        plan: 'pro+',
+        limit: 1200,
+        on_threshold: { '90': 'echo nearly' },
+      }),
+    ).toEqual([
+      ['plan', 'pro+'],
+      ['limit', '1200'],
+      ['on_threshold.90', 'echo nearly'],
+    ])
+  })
+})
+
+describe('custom plans', () => {
+  const config = {
+    plans: {
+      business: { allowance: 500 },
+      acme: {
+        allowance: 5000,
+        label: 'Acme Enterprise',
+        models: { 'claude-opus-4': 100 },
+      },
+    },
+  }
+
+  test('extend and override the built-in plans', () => {
+    expect(getPlans(config)).toEqual({
+      free: 50,
+      pro: 300,
+      'pro+': 1500,
+      business: 500,
+      enterprise: 1000,
+      acme: 5000,
+    })
+  })
+
+  test('are labelled in reports', () => {
+    expect(getPlanLabel(config, 'acme')).toBe('Acme Enterprise')
+    expect(getPlanLabel(config, 'business')).toBe('business')
+  })
+
+  test('have per-seat model allowances', () => {
+    expect(getModelLimits(config, 'acme', 4)).toEqual({ 'claude-opus-4': 400 })
+    expect(getModelLimits(config, 'business')).toBeUndefined()
+  })
+})
+
+describe('plan changes', () => {
+  const june = { year: 2025, month: 6 }
+
+  test('split the month between the previous plan and the current one', () => {
+    expect(
+      getPlanChangeSegments(
+        { previous_plan: 'pro' },
+        'pro+',
+        '2025-06-12',
+        june,
+      ),
+    ).toEqual([
+      { label: 'pro', allowance: 300, firstDay: 1, lastDay: 11 },
+      { label: 'pro+', allowance: 1500, firstDay: 12, lastDay: 30 },
+    ])
+  })
+
+  test('are from the default plan and per seat', () => {
+    const segments = getPlanChangeSegments(
+      {},
+      'business',
+      '2025-06-16',
+      june,
+      10,
+    )
+    expect(segments.map(({ allowance }) => allowance)).toEqual([3000, 3000])
+  })
+
+  test('prorate the plan default of the limit', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const segments = getPlanChangeSegments({}, 'pro+', '2025-06-12', june)
+    const result = await resolveLimit(
+      undefined,
+      'pro+',
+      {},
+      shellExec,
+      1,
+      {},
+      segments,
+    )
+    expect(result).toBe(1060)
+  })
+
+  test('name both plans when explaining the limit', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const segments = getPlanChangeSegments({}, 'pro+', '2025-06-12', june)
+    const { sources } = await explainLimit(
+      undefined,
+      'pro+',
+      {},
+      shellExec,
+      1,
+      {},
+      segments,
+    )
+    expect(sources.at(-1)).toEqual({
+      name: 'pro → pro+ allowance',
+      status: 'used',
+      value: '1060',
+    })
+  })
+
+  test('leave explicit limits alone', async () => {
+    const shellExec = async () => { throw new Error('should not call') }
+    const segments = getPlanChangeSegments({}, 'pro+', '2025-06-12', june)
+    const result = await resolveLimit(
+      500,
+      'pro+',
+      {},
+      shellExec,
+      1,
+      {},
+      segments,
+    )
+    expect(result).toBe(500)
+  })
+
+  test('are validated when set', () => {
+    expect(setConfigValue({}, 'plan_since', '2025-06-12')).toEqual({
+      plan_since: '2025-06-12',
+    })
+    expect(setConfigValue({}, 'previous_plan', 'Pro')).toEqual({
+      previous_plan: 'pro',
+    })
+    expect(setConfigValue({}, 'plan_since', '2025-06-31')).toBeInstanceOf(
+      InvalidConfigValueError,
+    )
+    expect(setConfigValue({}, 'previous_plan', 'gold')).toBeInstanceOf(
+      InvalidConfigValueError,
+    )
+  })
+})
+
+describe('explaining settings', () => {
+  test('reports every source of the plan', async () => {
+    const shellExec = async () => 'pro+\n'
+    const detectPlan = async () => new Error('Failed to fetch data: HTTP 404')
+    const result = await explainPlan(
+      undefined,
+      { GH_COPILOT_PLAN: 'platinum' },
+      shellExec,
+      { plan: 'business' },
+      detectPlan,
+    )
+    expect(result.value).toBe('business')
+    expect(formatResolution('plan', result)).toBe(
+      [
+        'plan: business',
+        '  --plan                   not set',
+        '  GH_COPILOT_PLAN          ignored, "platinum" is not a known plan',
+        '  config file              business (used)',
+        '  gh config                pro+ (overridden)',
+        '  detected from the API    unavailable, Failed to fetch data: HTTP 404',
+        '  default                  pro (overridden)',
+      ].join('\n'),
+    )
+  })
+
+  test('reports ignored limits and the seat count', async () => {
+    const shellExec = async () => { throw new Error('config not set') }
+    const result = await explainLimit(
+      undefined,
+      'business',
+      { GH_COPILOT_LIMIT: 'abc' },
+      shellExec,
+      10,
+    )
+    expect(result).toEqual({
+      value: 3000,
+      sources: [
+        { name: '--limit', status: 'unset' },
+        {
+          name: 'GH_COPILOT_LIMIT',
+          status: 'invalid',
+          reason: '"abc" is not a positive integer',
+        },
+        { name: 'config file', status: 'unset' },
+        { name: 'gh config', status: 'unset' },
+        { name: 'business allowance × 10', status: 'used', value: '3000' },
+      ],
+    })
+  })
+
+  test('resolves to the same value as without explaining', async () => {
+    const shellExec = async () => '1200\n'
+    const env = { GH_COPILOT_LIMIT: '0' }
+    const explained = await explainLimit(undefined, 'pro', env, shellExec)
+    const resolved = await resolveLimit(undefined, 'pro', env, shellExec)
+    expect(explained.value).toBe(resolved)
+  })
+
+  test('reports the cache TTL', async () => {
+    const result = await explainCacheTtl({ GH_COPILOT_CACHE_TTL: '60' })
+    expect(result.value).toBe(60)
+    expect(result.sources[2]).toEqual({
+      name: 'default',
+      status: 'overridden',
+      value: '300',
+    })
+  })
+
+  test('reports the time zone', async () => {
+    const result = await explainTimeZone({ timezone: 'Pacific/Auckland' })
+    expect(result.value).toBe('Pacific/Auckland')
+    expect(result.sources[0]).toEqual({
+      name: 'config file',
+      status: 'used',
+      value: 'Pacific/Auckland',
+    })
+    expect(result.sources[1]).toMatchObject({
+      name: 'system default',
+      status: 'overridden',
+    })
+    expect(await resolveTimeZone({})).toBe(
+      Intl.DateTimeFormat().resolvedOptions().timeZone,
+    )
+  })
+
+  test('cache TTL from the config file', async () => {
+    const result = await explainCacheTtl({}, { cache_ttl: 0 })
+    expect(result.value).toBe(0)
+    expect(result.sources[1]).toEqual({
+      name: 'config file',
+      status: 'used',
+      value: '0',
+    })
+  })
 })
@@ -1,4 +1,14 @@
 import * as errore from 'errore'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { z } from 'zod'
+import {
+  type PlanSegment,
+  getPlanSegments,
+  getProratedAllowance,
+  isValidDate,
+} from './prorate.ts'
+import type { BillingPeriod } from './usage.ts'
 
 export const PLANS: Record<string, number> = {
   free: 50,
@@ -15,33 +25,619 @@ export class ConfigReadError extends errore.createTaggedError({
   message: 'Failed to read gh config key "$key"',
 }) {}
 
-export type ShellExec = (cmd: string) => Promise<string>
+export class ConfigFileError extends errore.createTaggedError({
+  name: 'ConfigFileError',
+  message: 'Invalid config file "$path": $reason',
+}) {}
+
+export class InvalidSettingError extends errore.createTaggedError({
+  name: 'InvalidSettingError',
+  message: '"$value" is $reason',
+}) {}
+
+export class ConfigWriteError extends errore.createTaggedError({
+  name: 'ConfigWriteError',
+  message: 'Failed to write the config file "$path"',
+}) {}
+
+export class UnknownConfigKeyError extends errore.createTaggedError({
+  name: 'UnknownConfigKeyError',
+  message: 'Unknown config key "$key". Must be one of: $validKeys',
+}) {}
+
+export class InvalidConfigValueError extends errore.createTaggedError({
+  name: 'InvalidConfigValueError',
+  message: 'Invalid value "$value" for config key "$key": $reason',
+}) {}
+
+export type ShellExecOptions = {
+  /** Run through `sh -c` instead of splitting the command on spaces */
+  shell?: boolean
+  /** Variables added to the process environment */
+  env?: Record<string, string>
+  stdin?: string
+}
+
+export type ShellExec = (
+  cmd: string,
+  options?: ShellExecOptions,
+) => Promise<string>
+
+const THRESHOLD_KEY_PATTERN = /^\d+(\.\d+)?$/
+
+const positiveIntegerSchema = z
+  .number({ error: 'Expected a positive integer' })
+  .int({ error: 'Expected a positive integer' })
+  .positive({ error: 'Expected a positive integer' })
+
+/** Plans declared in the config file, alongside or instead of built-ins */
+const customPlanSchema = z.strictObject({
+  /** Premium requests included per seat each month */
+  allowance: positiveIntegerSchema,
+  /** Name shown in report headers, defaults to the plan's key */
+  label: z.string().min(1).optional(),
+  /** Price of a request beyond the allowance, in USD */
+  overage_price: z
+    .number({ error: 'Expected a price in USD' })
+    .nonnegative({ error: 'Expected a price in USD' })
+    .optional(),
+  /** Allowances of individual models, keyed by model name */
+  models: z.record(z.string().min(1), positiveIntegerSchema).optional(),
+})
+
+export type CustomPlan = z.infer<typeof customPlanSchema>
+
+export const configFileSchema = z
+  .strictObject({
+    /** Plan used when neither --plan nor GH_COPILOT_PLAN is set */
+    plan: z.string().toLowerCase().optional(),
+    /** Limit used when neither --limit nor GH_COPILOT_LIMIT is set */
+    limit: positiveIntegerSchema.optional(),
+    /** Day the plan changed, as `YYYY-MM-DD`, to prorate that month */
+    plan_since: z
+      .string()
+      .refine(isValidDate, 'Expected a date in YYYY-MM-DD format')
+      .optional(),
+    /** Plan before `plan_since`, defaults to the default plan */
+    previous_plan: z.string().toLowerCase().optional(),
+    /** Seconds cached API responses are reused, unless GH_COPILOT_CACHE_TTL is set */
+    cache_ttl: z
+      .number({ error: 'Expected a number of seconds' })
+      .int({ error: 'Expected a number of seconds' })
+      .nonnegative({ error: 'Expected a number of seconds' })
+      .optional(),
+    /** Zone the reset time is shown in, defaults to the local one */
+    timezone: z
+      .string()
+      .refine(isTimeZone, 'Expected an IANA time zone, e.g. Europe/Paris')
+      .optional(),
+    plans: z
+      .record(
+        z
+          .string()
+          .regex(/^[a-z\d][a-z\d+_-]*$/, 'Expected a lowercase plan name'),
+        customPlanSchema,
+      )
+      .optional(),
+    /** Shell commands keyed by a percentage of the limit */
+    on_threshold: z
+      .record(
+        z
+          .string()
+          .regex(THRESHOLD_KEY_PATTERN, 'Expected a percentage of the limit'),
+        z.string().min(1),
+      )
+      .optional(),
+  })
+  .superRefine((config, context) => {
+    const plans = getPlans(config)
+    for (const key of ['plan', 'previous_plan'] as const) {
+      const plan = config[key]
+      if (plan !== undefined && plans[plan] === undefined) {
+        context.addIssue({
+          code: 'custom',
+          path: [key],
+          message: `Expected one of: ${Object.keys(plans).join(', ')}`,
+        })
+      }
+    }
+  })
+
+export type ConfigFile = z.infer<typeof configFileSchema>
+
+function isTimeZone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: value })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Allowance of the built-in plans, overridden or extended by the config file */
+export function getPlans(config: ConfigFile): Record<string, number> {
+  const plans = { ...PLANS }
+  for (const [name, plan] of Object.entries(config.plans ?? {})) {
+    plans[name] = plan.allowance
+  }
+  return plans
+}
+
+export function getCustomPlan(
+  config: ConfigFile,
+  plan: string,
+): CustomPlan | undefined {
+  return config.plans?.[plan]
+}
+
+/** Per-model allowances of a custom plan, per seat like its allowance */
+export function getModelLimits(
+  config: ConfigFile,
+  plan: string,
+  seats = 1,
+): Record<string, number> | undefined {
+  const models = getCustomPlan(config, plan)?.models
+  if (models === undefined) return undefined
+  return Object.fromEntries(
+    Object.entries(models).map(([model, allowance]) => [
+      model,
+      allowance * seats,
+    ]),
+  )
+}
+
+/** Name of `plan` in report headers */
+export function getPlanLabel(config: ConfigFile, plan: string): string {
+  return getCustomPlan(config, plan)?.label ?? plan
+}
+
+/** `$XDG_CONFIG_HOME/gh-copilot-usage/config.json`, defaulting to `~/.config` */
+export function getConfigPath(env: NodeJS.ProcessEnv): string {
+  const base = env.XDG_CONFIG_HOME || join(homedir(), '.config')
+  return join(base, 'gh-copilot-usage', 'config.json')
+}
+
+/** A missing config file is an empty config, an invalid one is an error */
+export async function readConfigFile(
+  path: string,
+): Promise<ConfigFile | ConfigFileError> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) return {}
+
+  const rawOrError = await file
+    .json()
+    .catch(
+      (e: unknown) =>
+        new ConfigFileError({ path, reason: 'not valid JSON', cause: e }),
+    )
+  if (rawOrError instanceof ConfigFileError) return rawOrError
+  const raw: unknown = rawOrError
+
+  const parsed = configFileSchema.safeParse(raw)
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0]
+    const reason = issue
+      ? `${issue.path.join('.') || '(root)'}: ${issue.message}`
+      : 'unknown error'
+    return new ConfigFileError({ path, reason })
+  }
+  return parsed.data
+}
+
+export async function writeConfigFile(
+  path: string,
+  config: ConfigFile,
+): Promise<void | ConfigWriteError> {
+  const written = await Bun.write(
+    path,
+    JSON.stringify(config, null, 2) + '\n',
+  ).catch((e: unknown) => new ConfigWriteError({ path, cause: e }))
+  if (written instanceof ConfigWriteError) return written
+}
+
+/** Keys of the `config` command, hooks are set one threshold at a time */
+export const CONFIG_KEYS = [
+  'plan',
+  'limit',
+  'plan_since',
+  'previous_plan',
+  'timezone',
+  'cache_ttl',
+  'on_threshold.<percentage>',
+  'plans.<name>.allowance',
+  'plans.<name>.label',
+  'plans.<name>.overage_price',
+  'plans.<name>.models.<model>',
+]
+
+type ConfigKey = { path: string[]; type: 'string' | 'number' }
+
+const TOP_LEVEL_TYPES: Record<string, ConfigKey['type']> = {
+  plan: 'string',
+  limit: 'number',
+  plan_since: 'string',
+  previous_plan: 'string',
+  timezone: 'string',
+  cache_ttl: 'number',
+}
+
+const PLAN_FIELD_TYPES: Record<string, ConfigKey['type']> = {
+  allowance: 'number',
+  label: 'string',
+  overage_price: 'number',
+}
+
+/** Path of `key` in the config file, model names may contain dots */
+function parseConfigKey(key: string): ConfigKey | UnknownConfigKeyError {
+  const [name, ...rest] = key.split('.')
+  if (Object.hasOwn(TOP_LEVEL_TYPES, key)) {
+    return { path: [key], type: TOP_LEVEL_TYPES[key]! }
+  }
+  if (name === 'on_threshold' && THRESHOLD_KEY_PATTERN.test(rest.join('.'))) {
+    return { path: [name, rest.join('.')], type: 'string' }
+  }
+  const [plan, field, ...model] = rest
+  if (name === 'plans' && plan !== undefined && field !== undefined) {
+    const type = PLAN_FIELD_TYPES[field]
+    if (type !== undefined && model.length === 0) {
+      return { path: [name, plan, field], type }
+    }
+    if (field === 'models' && model.length > 0) {
+      return { path: [name, plan, field, model.join('.')], type: 'number' }
+    }
+  }
+  return new UnknownConfigKeyError({ key, validKeys: CONFIG_KEYS.join(', ') })
+}
+
+type ConfigObject = { [key: string]: unknown }
+
+function isConfigObject(value: unknown): value is ConfigObject {
+  return typeof value === 'object' && value !== null
+}
+
+/** Value of `key` as written by `config set`, undefined when unset */
+export function getConfigValue(
+  config: ConfigFile,
+  key: string,
+): string | undefined | UnknownConfigKeyError {
+  const parsedKey = parseConfigKey(key)
+  if (parsedKey instanceof Error) return parsedKey
+  let value: unknown = config
+  for (const segment of parsedKey.path) {
+    value = isConfigObject(value) ? value[segment] : undefined
+  }
+  return value === undefined ? undefined : String(value)
+}
+
+/**
+ * Copy of `config` with `key` set to `value`, validated against the schema
+ * so that invalid values are rejected before they reach the file.
+ */
+export function setConfigValue(
+  config: ConfigFile,
+  key: string,
+  value: string,
+): ConfigFile | UnknownConfigKeyError | InvalidConfigValueError {
+  const parsedKey = parseConfigKey(key)
+  if (parsedKey instanceof Error) return parsedKey
+
+  const raw: ConfigObject = structuredClone(config)
+  const parents = parsedKey.path.slice(0, -1)
+  let target = raw
+  for (const segment of parents) {
+    const child = target[segment]
+    target = isConfigObject(child) ? child : (target[segment] = {})
+  }
+  target[parsedKey.path.at(-1)!] =
+    parsedKey.type === 'number'
+      ? value.trim() === ''
+        ? NaN
+        : Number(value)
+      : value
+
+  const parsed = parseConfig(raw, parsedKey)
+  if (typeof parsed === 'string') {
+    return new InvalidConfigValueError({ key, value, reason: parsed })
+  }
+  return parsed
+}
+
+/** Validated config, or why it is invalid after changing `key` */
+function parseConfig(raw: ConfigObject, key: ConfigKey): ConfigFile | string {
+  const parsed = configFileSchema.safeParse(raw)
+  if (parsed.success) return parsed.data
+  const issue = parsed.error.issues[0]
+  if (!issue) return 'unknown error'
+  const path = issue.path.join('.')
+  // Changing a key can invalidate another one, e.g. a plan without allowance
+  return path === key.path.join('.')
+    ? issue.message
+    : `${path || '(root)'}: ${issue.message}`
+}
+
+/**
+ * Copy of `config` without `key`, tables left empty are removed. Keys other
+ * keys depend on, such as the allowance of a custom plan, cannot be unset.
+ */
+export function unsetConfigValue(
+  config: ConfigFile,
+  key: string,
+): ConfigFile | UnknownConfigKeyError | InvalidConfigValueError {
+  const parsedKey = parseConfigKey(key)
+  if (parsedKey instanceof Error) return parsedKey
+
+  const updated: ConfigObject = structuredClone(config)
+  const unset = (object: ConfigObject, [segment, ...rest]: string[]) => {
+    const child = object[segment!]
+    if (rest.length === 0 || !isConfigObject(child)) {
+      delete object[segment!]
+      return
+    }
+    unset(child, rest)
+    if (Object.keys(child).length === 0) delete object[segment!]
+  }
+  unset(updated, parsedKey.path)
+
+  const parsed = parseConfig(updated, parsedKey)
+  if (typeof parsed === 'string') {
+    const value = getConfigValue(config, key)
+    return new InvalidConfigValueError({
+      key,
+      value: typeof value === 'string' ? value : '',
+      reason: `cannot be unset, ${parsed}`,
+    })
+  }
+  return parsed
+}
+
+/** Every value set in `config`, as `key=value` pairs of the `config` command */
+export function listConfigValues(config: ConfigFile): [string, string][] {
+  const flatten = (value: unknown, prefix: string): [string, string][] =>
+    isConfigObject(value)
+      ? Object.entries(value).flatMap(([key, child]) =>
+          flatten(child, prefix ? `${prefix}.${key}` : key),
+        )
+      : [[prefix, String(value)]]
+  return flatten(config, '')
+}
+
+/** Outcome of one source of a setting, as shown by `config explain` */
+export type SettingSource = {
+  name: string
+  status: 'used' | 'overridden' | 'invalid' | 'unavailable' | 'unset'
+  value?: string
+  /** Why an invalid value was ignored, or the source could not be read */
+  reason?: string
+}
+
+/** Resolved value of a setting, with every source checked for it */
+export type Resolution<T> = { value: T; sources: SettingSource[] }
+
+/** Source of a setting, by priority, undefined when not set */
+type SettingLayer<T> = {
+  name: string
+  read: () => Promise<T | undefined | Error> | T | undefined | Error
+}
+
+/** Reports a source skipped for its invalid value */
+type WarnInvalid = (message: string) => void
+
+function describeInvalid(name: string, error: InvalidSettingError): string {
+  return `${name}: ${error.message}, ignored`
+}
+
+/**
+ * Value of the first layer that is set and valid, the last layer being a
+ * default. Unless explaining, lower layers are not read at all, sparing
+ * gh processes and API requests. Invalid layers above the value are
+ * reported to `warn`, rather than skipped silently.
+ */
+async function resolveSetting<T>(
+  layers: SettingLayer<T>[],
+  explain: boolean,
+  warn?: WarnInvalid,
+): Promise<Resolution<T>> {
+  let resolved: { value: T } | undefined
+  const sources: SettingSource[] = []
+  for (const { name, read } of layers) {
+    if (resolved && !explain) break
+    const value = await read()
+    if (value instanceof InvalidSettingError) {
+      sources.push({ name, status: 'invalid', reason: value.message })
+      if (!resolved) warn?.(describeInvalid(name, value))
+    } else if (value instanceof Error) {
+      // e.g. the API offline, or a token without the scope it needs
+      sources.push({ name, status: 'unavailable', reason: value.message })
+    } else if (value === undefined) {
+      sources.push({ name, status: 'unset' })
+    } else {
+      const status = resolved ? 'overridden' : 'used'
+      sources.push({ name, status, value: String(value) })
+      resolved ??= { value }
+    }
+  }
+  return { value: resolved!.value, sources }
+}
+
+/**
+ * The plan comes from the CLI, GH_COPILOT_PLAN, the config file, gh config,
+ * then `detectPlan` from the API. Invalid or undetectable values fall
+ * through to the next source.
+ */
+function getPlanLayers(
+  cliPlan: string | undefined,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  config: ConfigFile,
+  detectPlan?: () => Promise<string | undefined | Error>,
+): SettingLayer<string>[] {
+  const plans = getPlans(config)
+  const parsePlan = (raw: string) => {
+    const plan = raw.trim().toLowerCase()
+    return plans[plan]
+      ? plan
+      : new InvalidSettingError({
+          value: raw.trim(),
+          reason: 'not a known plan',
+        })
+  }
+  const envPlan = env.GH_COPILOT_PLAN
+
+  return [
+    { name: '--plan', read: () => cliPlan },
+    {
+      name: 'GH_COPILOT_PLAN',
+      read: () => (envPlan === undefined ? undefined : parsePlan(envPlan)),
+    },
+    // Validated when the config file was read, and spares spawning gh
+    { name: 'config file', read: () => config.plan },
+    {
+      name: 'gh config',
+      read: async () => {
+        const configPlan = await readGhConfig('copilot-usage.plan', shellExec)
+        // Config key not set — fall through (not an error)
+        return configPlan instanceof ConfigReadError
+          ? undefined
+          : parsePlan(configPlan)
+      },
+    },
+    {
+      name: 'detected from the API',
+      // Missing scopes or an unknown plan are no reason to fail the report
+      read: async () => {
+        const detected = await detectPlan?.()
+        return typeof detected === 'string' ? parsePlan(detected) : detected
+      },
+    },
+    { name: 'default', read: () => DEFAULT_PLAN },
+  ]
+}
 
 export async function resolvePlan(
   cliPlan: string | undefined,
   env: NodeJS.ProcessEnv,
   shellExec: ShellExec,
+  config: ConfigFile = {},
+  detectPlan?: () => Promise<string | undefined | Error>,
+  warn?: WarnInvalid,
 ): Promise<string> {
-  if (cliPlan !== undefined) {
-    return cliPlan
-  }
+  const layers = getPlanLayers(cliPlan, env, shellExec, config, detectPlan)
+  return (await resolveSetting(layers, false, warn)).value
+}
 
-  const envPlan = env.GH_COPILOT_PLAN
-  if (envPlan !== undefined && PLANS[envPlan.toLowerCase()]) {
-    return envPlan.toLowerCase()
-  }
+/** Like `resolvePlan`, reading every source to show why it was (not) used */
+export async function explainPlan(
+  cliPlan: string | undefined,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  config: ConfigFile = {},
+  detectPlan?: () => Promise<string | undefined | Error>,
+): Promise<Resolution<string>> {
+  const layers = getPlanLayers(cliPlan, env, shellExec, config, detectPlan)
+  return resolveSetting(layers, true)
+}
 
-  const configPlan = await readGhConfig('copilot-usage.plan', shellExec)
-  if (configPlan instanceof ConfigReadError) {
-    // Config key not set — fall through to default (not an error)
-    return DEFAULT_PLAN
+/** Explicit limits from the CLI, GH_COPILOT_LIMIT, the config file, gh config */
+function getLimitOverrideLayers(
+  cliLimit: number | undefined,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  config: ConfigFile,
+): SettingLayer<number>[] {
+  const parseLimit = (raw: string) => {
+    const parsed = parseInt(raw.trim(), 10)
+    return !isNaN(parsed) && parsed > 0
+      ? parsed
+      : new InvalidSettingError({
+          value: raw.trim(),
+          reason: 'not a positive integer',
+        })
   }
-  const planKey = configPlan.trim().toLowerCase()
-  if (PLANS[planKey]) {
-    return planKey
+  const envLimit = env.GH_COPILOT_LIMIT
+
+  return [
+    { name: '--limit', read: () => cliLimit },
+    {
+      name: 'GH_COPILOT_LIMIT',
+      read: () => (envLimit === undefined ? undefined : parseLimit(envLimit)),
+    },
+    { name: 'config file', read: () => config.limit },
+    {
+      name: 'gh config',
+      read: async () => {
+        const configLimit = await readGhConfig('copilot-usage.limit', shellExec)
+        // Config key not set — fall through (not an error)
+        return configLimit instanceof ConfigReadError
+          ? undefined
+          : parseLimit(configLimit)
+      },
+    },
+  ]
+}
+
+/**
+ * The monthly premium request limit. Without an explicit value, the plan's
+ * per-seat allowance is multiplied by the number of `seats` (1 for
+ * individual accounts, the assigned seat count for organizations), or
+ * prorated between the `planSegments` of a month with a plan change.
+ */
+function getLimitLayers(
+  cliLimit: number | undefined,
+  plan: string,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  seats: number,
+  config: ConfigFile,
+  planSegments: PlanSegment[] | undefined,
+): SettingLayer<number>[] {
+  const allowance = planSegments
+    ? planSegments.map(({ label }) => label).join(' → ')
+    : plan
+
+  return [
+    ...getLimitOverrideLayers(cliLimit, env, shellExec, config),
+    {
+      name:
+        seats === 1
+          ? `${allowance} allowance`
+          : `${allowance} allowance × ${seats}`,
+      read: () => getAllowanceLimit(plan, seats, config, planSegments),
+    },
+  ]
+}
+
+/**
+ * Limit set explicitly, undefined when it falls back to the allowance, so
+ * that the seats multiplying it are only fetched when needed
+ */
+export async function resolveLimitOverride(
+  cliLimit: number | undefined,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  config: ConfigFile = {},
+  warn?: WarnInvalid,
+): Promise<number | undefined> {
+  const layers = getLimitOverrideLayers(cliLimit, env, shellExec, config)
+  for (const { name, read } of layers) {
+    const value = await read()
+    if (typeof value === 'number') return value
+    if (value instanceof InvalidSettingError) {
+      warn?.(describeInvalid(name, value))
+    }
   }
+  return undefined
+}
 
-  return DEFAULT_PLAN
+/** The plan's allowance for every seat, prorated after a plan change */
+export function getAllowanceLimit(
+  plan: string,
+  seats: number,
+  config: ConfigFile,
+  planSegments?: PlanSegment[],
+): number {
+  return planSegments
+    ? getProratedAllowance(planSegments)
+    : getPlanLimit(plan, seats, config)
 }
 
 export async function resolveLimit(
@@ -49,30 +645,71 @@ export async function resolveLimit(
   plan: string,
   env: NodeJS.ProcessEnv,
   shellExec: ShellExec,
+  seats = 1,
+  config: ConfigFile = {},
+  planSegments?: PlanSegment[],
+  warn?: WarnInvalid,
 ): Promise<number> {
-  if (cliLimit !== undefined) {
-    return cliLimit
-  }
+  const layers = getLimitLayers(
+    cliLimit,
+    plan,
+    env,
+    shellExec,
+    seats,
+    config,
+    planSegments,
+  )
+  return (await resolveSetting(layers, false, warn)).value
+}
 
-  const envLimit = env.GH_COPILOT_LIMIT
-  if (envLimit !== undefined) {
-    const parsed = parseInt(envLimit, 10)
-    if (!isNaN(parsed) && parsed > 0) {
-      return parsed
-    }
-  }
+/** Like `resolveLimit`, reading every source to show why it was (not) used */
+export async function explainLimit(
+  cliLimit: number | undefined,
+  plan: string,
+  env: NodeJS.ProcessEnv,
+  shellExec: ShellExec,
+  seats = 1,
+  config: ConfigFile = {},
+  planSegments?: PlanSegment[],
+): Promise<Resolution<number>> {
+  const layers = getLimitLayers(
+    cliLimit,
+    plan,
+    env,
+    shellExec,
+    seats,
+    config,
+    planSegments,
+  )
+  return resolveSetting(layers, true)
+}
 
-  const configLimit = await readGhConfig('copilot-usage.limit', shellExec)
-  if (configLimit instanceof ConfigReadError) {
-    // Config key not set — fall through to plan default (not an error)
-    return PLANS[plan] ?? 300
-  }
-  const parsed = parseInt(configLimit.trim(), 10)
-  if (!isNaN(parsed) && parsed > 0) {
-    return parsed
-  }
+function getPlanLimit(plan: string, seats: number, config: ConfigFile): number {
+  return (getPlans(config)[plan] ?? 300) * seats
+}
 
-  return PLANS[plan] ?? 300
+/**
+ * Days of `period` on the plan before and after a change on `since`, from
+ * `previous_plan` of the config file (the default plan when unset) to
+ * `plan`. Allowances are for every seat, like the limit.
+ */
+export function getPlanChangeSegments(
+  config: ConfigFile,
+  plan: string,
+  since: string,
+  period: BillingPeriod,
+  seats = 1,
+): PlanSegment[] {
+  const describe = (key: string) => ({
+    label: getPlanLabel(config, key),
+    allowance: getPlanLimit(key, seats, config),
+  })
+  return getPlanSegments(
+    period,
+    since,
+    describe(config.previous_plan ?? DEFAULT_PLAN),
+    describe(plan),
+  )
 }
 
 async function readGhConfig(
@@ -83,3 +720,106 @@ async function readGhConfig(
     (e) => new ConfigReadError({ key, cause: e }),
   )
 }
+
+/** Seconds a cached API response is served before being fetched again */
+export const DEFAULT_CACHE_TTL = 300
+
+function parseCacheTtl(raw: string): number | InvalidSettingError {
+  const parsed = parseInt(raw, 10)
+  return !isNaN(parsed) && parsed >= 0
+    ? parsed
+    : new InvalidSettingError({ value: raw, reason: 'not a number of seconds' })
+}
+
+/** The cache TTL comes from GH_COPILOT_CACHE_TTL, then the config file */
+function getCacheTtlLayers(
+  env: NodeJS.ProcessEnv,
+  config: ConfigFile,
+): SettingLayer<number>[] {
+  const envTtl = env.GH_COPILOT_CACHE_TTL
+  return [
+    {
+      name: 'GH_COPILOT_CACHE_TTL',
+      read: () => (envTtl === undefined ? undefined : parseCacheTtl(envTtl)),
+    },
+    { name: 'config file', read: () => config.cache_ttl },
+    { name: 'default', read: () => DEFAULT_CACHE_TTL },
+  ]
+}
+
+/** Synchronous, none of the sources spawn gh or hit the API */
+export function resolveCacheTtl(
+  env: NodeJS.ProcessEnv,
+  config: ConfigFile = {},
+  warn?: WarnInvalid,
+): number {
+  for (const { name, read } of getCacheTtlLayers(env, config)) {
+    const value = read()
+    if (typeof value === 'number') return value
+    if (value instanceof InvalidSettingError) {
+      warn?.(describeInvalid(name, value))
+    }
+  }
+  return DEFAULT_CACHE_TTL
+}
+
+export async function explainCacheTtl(
+  env: NodeJS.ProcessEnv,
+  config: ConfigFile = {},
+): Promise<Resolution<number>> {
+  return resolveSetting(getCacheTtlLayers(env, config), true)
+}
+
+/** Reset times are also shown in the zone of the config file or the system */
+function getTimeZoneLayers(config: ConfigFile): SettingLayer<string>[] {
+  return [
+    { name: 'config file', read: () => config.timezone },
+    {
+      name: 'system default',
+      read: () => Intl.DateTimeFormat().resolvedOptions().timeZone,
+    },
+  ]
+}
+
+export async function resolveTimeZone(
+  config: ConfigFile = {},
+): Promise<string> {
+  return (await resolveSetting(getTimeZoneLayers(config), false)).value
+}
+
+export async function explainTimeZone(
+  config: ConfigFile = {},
+): Promise<Resolution<string>> {
+  return resolveSetting(getTimeZoneLayers(config), true)
+}
+
+const SOURCE_NAME_WIDTH = 24
+
+/** A setting and its sources by priority, for `config explain` */
+export function formatResolution(
+  setting: string,
+  { value, sources }: Resolution<unknown>,
+): string {
+  return [
+    `${setting}: ${value}`,
+    ...sources.map(
+      (source) =>
+        `  ${source.name.padEnd(SOURCE_NAME_WIDTH)} ${describeSource(source)}`,
+    ),
+  ].join('\n')
+}
+
+function describeSource(source: SettingSource): string {
+  switch (source.status) {
+    case 'used':
+      return `${source.value} (used)`
+    case 'overridden':
+      return `${source.value} (overridden)`
+    case 'invalid':
+      return `ignored, ${source.reason}`
+    case 'unavailable':
+      return `unavailable, ${source.reason}`
+    case 'unset':
+      return 'not set'
+  }
+}
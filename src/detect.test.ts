@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test'
+import { detectPlan } from './detect.ts'
+import type { BillingScope } from './scope.ts'
+import { FetchError, ParseError } from './usage.ts'
+
+const OCTOCAT: BillingScope = { type: 'user', username: 'octocat' }
+
+describe('detectPlan', () => {
+  test('maps the Copilot plan of users to a plan', async () => {
+    for (const [copilotPlan, plan] of [
+      ['free', 'free'],
+      ['individual', 'pro'],
+      ['individual_pro', 'pro+'],
+      ['business', 'business'],
+      ['enterprise', 'enterprise'],
+    ]) {
+      const paths: string[] = []
+      const fetcher = async (path: string) => {
+        paths.push(path)
+        return { copilot_plan: copilotPlan, chat_enabled: true }
+      }
+      expect(await detectPlan(OCTOCAT, fetcher)).toBe(plan!)
+      expect(paths).toEqual(['/copilot_internal/user'])
+    }
+  })
+
+  test('detects the plan of the seat assigned in an organization', async () => {
+    const paths: string[] = []
+    const fetcher = async (path: string) => {
+      paths.push(path)
+      return path === '/user'
+        ? { login: 'octocat' }
+        : { plan_type: 'enterprise', assignee: { login: 'octocat' } }
+    }
+    const result = await detectPlan({ type: 'org', org: 'acme' }, fetcher)
+    expect(result).toBe('enterprise')
+    expect(paths).toEqual(['/user', '/orgs/acme/members/octocat/copilot'])
+  })
+
+  test('detects the plan of enterprise seats', async () => {
+    const fetcher = async () => ({
+      total_seats: 40,
+      seats: [{ plan_type: 'business' }],
+    })
+    const scope: BillingScope = {
+      type: 'enterprise',
+      enterprise: 'megacorp',
+      costCenter: 'cc',
+    }
+    expect(await detectPlan(scope, fetcher)).toBe('business')
+  })
+
+  test('returns undefined for plans without a matching key', async () => {
+    const user = async () => ({ copilot_plan: 'unlimited' })
+    expect(await detectPlan(OCTOCAT, user)).toBeUndefined()
+    const noSeats = async () => ({ total_seats: 0, seats: [] })
+    const scope: BillingScope = { type: 'enterprise', enterprise: 'megacorp' }
+    expect(await detectPlan(scope, noSeats)).toBeUndefined()
+  })
+
+  test('returns FetchError and ParseError', async () => {
+    const failing = async () => {
+      throw new Error('HTTP 404')
+    }
+    expect(await detectPlan(OCTOCAT, failing)).toBeInstanceOf(FetchError)
+    const unexpected = async () => ({ plan: 'pro' })
+    expect(await detectPlan(OCTOCAT, unexpected)).toBeInstanceOf(ParseError)
+  })
+
+  test('tells when the user endpoint may have changed', async () => {
+    const unexpected = async () => ({ copilot: { plan: 'individual' } })
+    const result = await detectPlan(OCTOCAT, unexpected)
+    expect(result).toBeInstanceOf(ParseError)
+    expect((result as ParseError).message).toBe(
+      'Failed to parse API response: Could not parse the Copilot plan from ' +
+        '/copilot_internal/user response, the undocumented endpoint may ' +
+        'have changed',
+    )
+  })
+})
@@ -0,0 +1,88 @@
+import { z } from 'zod'
+import type { BillingScope } from './scope.ts'
+import { FetchError, type Fetcher, ParseError, fetchUsername } from './usage.ts'
+
+/** Seconds a detected plan is reused, plans change far less than usage */
+export const PLAN_DETECTION_TTL = 24 * 60 * 60
+
+/** `copilot_plan` of the Copilot user endpoint, per plan */
+const USER_PLANS: Record<string, string> = {
+  free: 'free',
+  individual: 'pro',
+  individual_pro: 'pro+',
+  business: 'business',
+  enterprise: 'enterprise',
+}
+
+/** `plan_type` of organization billing and seat assignments */
+const SEAT_PLANS: Record<string, string> = {
+  business: 'business',
+  enterprise: 'enterprise',
+}
+
+/**
+ * Detect the Copilot plan of a scope from the API, as a `PLANS` key.
+ * Organizations are looked up with the seat assignment of the
+ * authenticated user, enterprises with the plan of their seats and users
+ * with the Copilot user endpoint. Undefined when the API reports a plan
+ * without a matching key.
+ */
+export async function detectPlan(
+  scope: BillingScope,
+  fetcher: Fetcher,
+): Promise<string | undefined | FetchError | ParseError> {
+  let path: string
+  let schema: z.ZodType<string | undefined, unknown>
+  switch (scope.type) {
+    case 'user':
+      // No documented endpoint reports individual plans (Free, Pro, Pro+),
+      // only the internal one of the editors. It may change without notice,
+      // so it is only used for users, and its errors fall through to the
+      // next source of the plan. A response that no longer parses says so.
+      path = '/copilot_internal/user'
+      schema = z
+        .object({ copilot_plan: z.string() })
+        .transform((data) => USER_PLANS[data.copilot_plan])
+      break
+    case 'org': {
+      const username = await fetchUsername(fetcher)
+      if (username instanceof Error) return username
+      path = `/orgs/${scope.org}/members/${username}/copilot`
+      schema = z
+        .object({ plan_type: z.string() })
+        .transform((data) => SEAT_PLANS[data.plan_type])
+      break
+    }
+    case 'enterprise':
+      // Shared with the seat count, whose first seat tells the plan
+      path = `/enterprises/${scope.enterprise}/copilot/billing/seats?per_page=1`
+      schema = z
+        .object({ seats: z.array(z.object({ plan_type: z.string() })) })
+        .transform((data) => {
+          const planType = data.seats[0]?.plan_type
+          return planType === undefined ? undefined : SEAT_PLANS[planType]
+        })
+      break
+  }
+
+  const rawOrError = await fetcher(path).catch((e: unknown) => {
+    const reason = e instanceof Error ? e.message : String(e)
+    return new FetchError({ reason, cause: e instanceof Error ? e : undefined })
+  })
+
+  if (rawOrError instanceof FetchError) return rawOrError
+  const raw: unknown = rawOrError
+
+  const parsed = schema.safeParse(raw)
+  if (!parsed.success) {
+    const reason = `Could not parse the Copilot plan from ${path} response`
+    return new ParseError({
+      reason:
+        scope.type === 'user'
+          ? `${reason}, the undocumented endpoint may have changed`
+          : reason,
+    })
+  }
+
+  return parsed.data
+}
@@ -1,30 +1,24 @@
 import { describe, expect, test } from 'bun:test'
 import {
+  drawDailyChart,
+  drawSparkline,
+  formatResetDate,
   formatTimeUntilReset,
   getModelColor,
   getOverallColor,
+  getUsageCost,
   renderDisplay,
+  renderHistory,
+  renderLeaderboard,
+  renderLine,
+  renderMarkdown,
 } from './display.ts'
+import type { PlanSegment } from './prorate.ts'
+import { makeUsageData } from './test-utils.ts'
 import type { UsageData } from './usage.ts'
 
 const RENDER_OPTIONS = { width: 80 }
 
-function makeUsageData(overrides: Partial<UsageData> = {}): UsageData {
-  return {
-    username: 'octocat',
-    year: 2025,
-    month: '06',
-    monthName: 'June',
-    currentDay: 15,
-    daysInMonth: 30,
-    nextResetDate: new Date(Date.UTC(2025, 6, 1)), // July 1 UTC
-    now: new Date(Date.UTC(2025, 5, 15)), // June 15 UTC — >7 days before reset
-    totalUsage: 0,
-    modelCounts: new Map(),
-    ...overrides,
-  }
-}
-
 describe('renderDisplay', () => {
   test('returns a non-empty string', () => {
     const result = renderDisplay(makeUsageData(), 'pro', 300, RENDER_OPTIONS)
@@ -37,6 +31,69 @@ describe('renderDisplay', () => {
     expect(result).toContain('octocat')
   })
 
+  test('shows the organization for org scopes', () => {
+    const result = renderDisplay(
+      makeUsageData({ scope: { type: 'org', org: 'acme' } }),
+      'business',
+      3000,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('June 2025 • acme (organization)')
+    expect(result).not.toContain('octocat')
+  })
+
+  test('shows the enterprise and cost center for enterprise scopes', () => {
+    const result = renderDisplay(
+      makeUsageData({
+        scope: {
+          type: 'enterprise',
+          enterprise: 'megacorp',
+          costCenter: 'cc-42',
+        },
+      }),
+      'enterprise',
+      10000,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('June 2025 • megacorp • cost center cc-42')
+  })
+
+  test('breaks usage down per organization when available', () => {
+    const result = Bun.stripANSI(
+      renderDisplay(
+        makeUsageData({
+          scope: { type: 'enterprise', enterprise: 'megacorp' },
+          totalUsage: 40,
+          orgCounts: new Map([
+            ['globex', 10],
+            ['acme', 30],
+          ]),
+        }),
+        'enterprise',
+        1000,
+        RENDER_OPTIONS,
+      ),
+    )
+    expect(result).toContain('Per-organization usage:')
+    expect(result.indexOf('acme')).toBeLessThan(result.indexOf('globex'))
+  })
+
+  test('omits the organization breakdown without organization totals', () => {
+    const result = renderDisplay(makeUsageData(), 'pro', 300, RENDER_OPTIONS)
+    expect(result).not.toContain('Per-organization usage:')
+  })
+
+  test('stamps the time cached data was fetched', () => {
+    const result = renderDisplay(makeUsageData(), 'pro', 300, {
+      ...RENDER_OPTIONS,
+      dataAsOf: new Date('2025-06-14T08:30:00Z'),
+    })
+    expect(result).toContain('Data as of 2025-06-14 08:30 UTC')
+    expect(
+      renderDisplay(makeUsageData(), 'pro', 300, RENDER_OPTIONS),
+    ).not.toContain('Data as of')
+  })
+
   test('contains month name and year', () => {
     const result = renderDisplay(makeUsageData(), 'pro', 300, RENDER_OPTIONS)
     expect(result).toContain('June')
@@ -150,6 +207,153 @@ describe('renderDisplay', () => {
     }
   })
 
+  test('closed period says the period has ended instead of a reset', () => {
+    const result = renderDisplay(
+      makeUsageData({
+        closed: true,
+        currentDay: 30,
+        now: new Date(Date.UTC(2025, 6, 3)),
+      }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('Period ended July 1, 2025')
+    expect(result).not.toContain('Resets:')
+  })
+
+  test('closed period does not show relative time until reset', () => {
+    const result = renderDisplay(
+      makeUsageData({
+        closed: true,
+        currentDay: 30,
+        now: new Date(Date.UTC(2025, 5, 28)),
+      }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).not.toContain('in 3 days')
+  })
+
+  test('shows a forecast for the current period', () => {
+    const result = renderDisplay(
+      makeUsageData({ totalUsage: 200, currentDay: 10 }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('Forecast:')
+    expect(result).toContain('Hit on June 15 at the current rate')
+    expect(result).toContain('requests/day to stay within the limit')
+  })
+
+  test('shows a weighted forecast when daily usage is available', () => {
+    const result = renderDisplay(
+      makeUsageData({ totalUsage: 30, dailyUsage: [10, 20] }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('Recent:')
+  })
+
+  test('does not show a forecast for a closed period', () => {
+    const result = renderDisplay(
+      makeUsageData({ closed: true, currentDay: 30 }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).not.toContain('Forecast:')
+  })
+
+  test('shows the cost section when pricing is available', () => {
+    const result = Bun.stripANSI(
+      renderDisplay(
+        makeUsageData({
+          totalUsage: 350,
+          cost: {
+            pricePerUnit: 0.04,
+            grossAmount: 14,
+            discountQuantity: 300,
+            discountAmount: 12,
+            netQuantity: 50,
+            netAmount: 2,
+          },
+        }),
+        'pro',
+        300,
+        RENDER_OPTIONS,
+      ),
+    )
+    expect(result).toContain('300 requests covered by the plan')
+    expect(result).toContain('50 requests at $0.04 each')
+    expect(result).toContain('$2.00')
+    // 350 in 15 days → 700 by the end of the month, 400 over the limit
+    expect(result).toContain('$16.00 by June 30')
+  })
+
+  test('does not project the bill for a closed period', () => {
+    const result = Bun.stripANSI(
+      renderDisplay(
+        makeUsageData({
+          closed: true,
+          currentDay: 30,
+          totalUsage: 350,
+          cost: {
+            pricePerUnit: 0.04,
+            grossAmount: 14,
+            discountQuantity: 300,
+            discountAmount: 12,
+            netQuantity: 50,
+            netAmount: 2,
+          },
+        }),
+        'pro',
+        300,
+        RENDER_OPTIONS,
+      ),
+    )
+    expect(result).toContain('$2.00 for the period')
+    expect(result).not.toContain('Estimate:')
+  })
+
+  test('hides the cost section without pricing', () => {
+    const result = renderDisplay(makeUsageData(), 'pro', 300, RENDER_OPTIONS)
+    expect(result).not.toContain('Billed:')
+  })
+
+  test('shows daily chart when daily usage is available', () => {
+    const result = renderDisplay(
+      makeUsageData({ totalUsage: 30, dailyUsage: [10, 20] }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toContain('Daily usage')
+    expect(result).toContain('even pace: 10/day')
+  })
+
+  test('each output line fits within width with the daily chart', () => {
+    for (const width of [60, 80, 100]) {
+      const result = renderDisplay(
+        makeUsageData({
+          totalUsage: 30,
+          currentDay: 31,
+          daysInMonth: 31,
+          dailyUsage: new Array(31).fill(3),
+        }),
+        'pro',
+        300,
+        { width },
+      )
+      for (const line of result.split('\n')) {
+        expect(Bun.stringWidth(line)).toBeLessThanOrEqual(width)
+      }
+    }
+  })
+
   test('each output line fits within width when relative time is shown', () => {
     const nextResetDate = new Date(Date.UTC(2025, 6, 1))
     const now = new Date(Date.UTC(2025, 5, 26, 12, 0, 0)) // ~4.5 days before
@@ -368,6 +572,66 @@ describe('renderDisplay snapshots', () => {
     expect(result).toMatchSnapshot()
   })
 
+  test('closed past period', () => {
+    const modelCounts = new Map([['gpt-4o', 210]])
+    const result = renderDisplay(
+      makeUsageData({
+        year: 2025,
+        month: '04',
+        monthName: 'April',
+        currentDay: 30,
+        daysInMonth: 30,
+        nextResetDate: new Date(Date.UTC(2025, 4, 1)),
+        closed: true,
+        totalUsage: 210,
+        modelCounts,
+      }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toMatchSnapshot()
+  })
+
+  test('daily chart', () => {
+    const dailyUsage = [4, 12, 0, 8, 25, 9, 3, 0, 0, 14, 6, 11, 2, 18, 7]
+    const result = renderDisplay(
+      makeUsageData({
+        totalUsage: 119,
+        modelCounts: new Map([['gpt-4o', 119]]),
+        dailyUsage,
+      }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toMatchSnapshot()
+  })
+
+  test('overage with pricing', () => {
+    const result = renderDisplay(
+      makeUsageData({
+        totalUsage: 350,
+        modelCounts: new Map([
+          ['gpt-4o', 280],
+          ['claude-sonnet-4', 70],
+        ]),
+        cost: {
+          pricePerUnit: 0.04,
+          grossAmount: 14,
+          discountQuantity: 300,
+          discountAmount: 12,
+          netQuantity: 50,
+          netAmount: 2,
+        },
+      }),
+      'pro',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toMatchSnapshot()
+  })
+
   test('within 7 days of reset shows relative time', () => {
     const nextResetDate = new Date(Date.UTC(2025, 6, 1)) // July 1 UTC midnight
     const now = new Date(Date.UTC(2025, 5, 26, 12, 0, 0)) // ~4.5 days before
@@ -434,3 +698,400 @@ describe('formatTimeUntilReset', () => {
     expect(formatTimeUntilReset(now, reset)).toBeNull()
   })
 })
+
+describe('formatResetDate', () => {
+  const reset = new Date(Date.UTC(2025, 6, 1))
+
+  test('shows the reset in UTC', () => {
+    expect(formatResetDate(reset)).toBe('July 1, 2025 at 00:00 UTC')
+  })
+
+  test('adds the time in another time zone', () => {
+    expect(formatResetDate(reset, 'America/Los_Angeles')).toBe(
+      'July 1, 2025 at 00:00 UTC (Jun 30, 17:00 PDT)',
+    )
+    expect(formatResetDate(reset, 'Pacific/Auckland')).toBe(
+      'July 1, 2025 at 00:00 UTC (Jul 1, 12:00 GMT+12)',
+    )
+  })
+
+  test('leaves out time zones at UTC', () => {
+    expect(formatResetDate(reset, 'Etc/UTC')).toBe('July 1, 2025 at 00:00 UTC')
+  })
+
+  test('is shown in the terminal and markdown reports', () => {
+    const data = makeUsageData()
+    const options = { ...RENDER_OPTIONS, timeZone: 'America/Los_Angeles' }
+    expect(Bun.stripANSI(renderDisplay(data, 'pro', 300, options))).toContain(
+      'Resets:   July 1, 2025 at 00:00 UTC (Jun 30, 17:00 PDT)',
+    )
+    expect(renderMarkdown(data, 'pro', 300, options)).toContain(
+      '| Resets | July 1, 2025 at 00:00 UTC (Jun 30, 17:00 PDT) |',
+    )
+  })
+})
+
+describe('drawDailyChart', () => {
+  const strip = (line: string) => Bun.stripANSI(line)
+
+  test('draws one column per day of the month', () => {
+    const lines = drawDailyChart([10, 20], 2, 30, 10, 76).map(strip)
+    // 8 rows, the x axis and the today marker
+    expect(lines).toHaveLength(10)
+    expect(lines[8]).toBe('    0 └' + '─'.repeat(59))
+  })
+
+  test('labels the top of the scale and the pacing line', () => {
+    const lines = drawDailyChart([10, 20], 2, 30, 10, 76).map(strip)
+    expect(lines[0]).toStartWith('   20 ┤')
+    expect(lines.some((line) => line.startsWith('   10 ┤'))).toBe(true)
+    expect(lines.some((line) => line.includes('┄'))).toBe(true)
+  })
+
+  test('marks today under its column', () => {
+    const lines = drawDailyChart([1, 2, 3], 3, 30, 10, 76).map(strip)
+    expect(lines[9]).toBe(' '.repeat(7 + 4) + '▲ today')
+  })
+
+  test('omits the today marker for closed periods', () => {
+    const lines = drawDailyChart([1, 2, 3], null, 30, 10, 76).map(strip)
+    expect(lines).toHaveLength(9)
+    expect(lines.join('\n')).not.toContain('today')
+  })
+
+  test('colours days over the pace in red', () => {
+    const lines = drawDailyChart([5, 20], 2, 30, 10, 76)
+    const topRow = lines[0]!
+    expect(topRow).toContain('\x1B[31m█')
+  })
+
+  test('falls back to single-width columns on narrow layouts', () => {
+    const lines = drawDailyChart([1], 1, 31, 10, 56).map(strip)
+    expect(lines[8]).toBe('    0 └' + '─'.repeat(31))
+  })
+})
+
+describe('renderLine', () => {
+  const data = makeUsageData({ totalUsage: 142 })
+
+  test('fits the usage on a single line', () => {
+    const line = renderLine(data, 'pro', 300)
+    expect(Bun.stripANSI(line)).toBe('⚡ 142/300 47.3% ▕██░░░▏ d15/30')
+  })
+
+  test('fills the fields of a custom template', () => {
+    const line = renderLine(
+      data,
+      'pro',
+      300,
+      '{name} {plan}: {remaining} left ({pct})',
+    )
+    expect(Bun.stripANSI(line)).toBe('octocat pro: 158 left (47.3%)')
+  })
+
+  test('keeps unknown placeholders as is', () => {
+    expect(renderLine(data, 'pro', 300, '{used} {cost}')).toBe('142 {cost}')
+  })
+
+  test('colours the percentage like the overall usage', () => {
+    expect(renderLine(data, 'pro', 300, '{pct}')).toBe(
+      '\x1B[32m47.3%\x1B[39m',
+    )
+    const ahead = makeUsageData({ totalUsage: 160 })
+    expect(renderLine(ahead, 'pro', 300, '{pct}')).toBe(
+      '\x1B[33m53.3%\x1B[39m',
+    )
+  })
+})
+
+describe('renderMarkdown', () => {
+  test('renders the usage as markdown tables', () => {
+    const data = makeUsageData({
+      totalUsage: 160,
+      modelCounts: new Map([
+        ['gpt-4o', 100],
+        ['claude-sonnet-4', 60],
+      ]),
+    })
+    expect(renderMarkdown(data, 'pro', 300)).toMatchSnapshot()
+  })
+
+  test('contains no ANSI codes', () => {
+    const data = makeUsageData({
+      totalUsage: 250,
+      modelCounts: new Map([['gpt-4o', 250]]),
+      dailyUsage: [10, 20, 30],
+    })
+    const output = renderMarkdown(data, 'pro', 300)
+    expect(output).toBe(Bun.stripANSI(output))
+    expect(output).toContain('> 🔴 **Well ahead of pace**')
+  })
+
+  test('summarizes closed periods without a forecast', () => {
+    const data = makeUsageData({
+      currentDay: 30,
+      closed: true,
+      totalUsage: 310,
+    })
+    const output = renderMarkdown(data, 'pro', 300)
+    expect(output).toContain('| Closed | Period ended July 1, 2025')
+    expect(output).toContain('> 🔴 **Over the limit**')
+    expect(output).not.toContain('Forecast')
+  })
+
+  test('escapes pipes in model names', () => {
+    const data = makeUsageData({
+      totalUsage: 1,
+      modelCounts: new Map([['a|b', 1]]),
+    })
+    expect(renderMarkdown(data, 'pro', 300)).toContain('| a\\|b | 1 |')
+  })
+
+  test('mentions the lack of usage', () => {
+    const output = renderMarkdown(makeUsageData(), 'pro', 300)
+    expect(output).toContain('No premium requests used yet.')
+  })
+
+  test('measures models against their own allowance', () => {
+    const data = makeUsageData({
+      totalUsage: 150,
+      modelCounts: new Map([
+        ['gpt-4o', 100],
+        ['claude-opus-4', 50],
+      ]),
+    })
+    const output = renderMarkdown(data, 'Acme', 1000, {
+      modelLimits: { 'claude-opus-4': 200 },
+    })
+    expect(output).toContain('## GitHub Copilot Acme - Premium Requests Usage')
+    expect(output).toContain('| gpt-4o | 100 | 10.0% |')
+    expect(output).toContain('| claude-opus-4 | 50 | 25.0% |')
+  })
+})
+
+describe('getUsageCost', () => {
+  test('estimates the bill from the overage price', () => {
+    const data = makeUsageData({ totalUsage: 320 })
+    expect(getUsageCost(data, 300, 0.04)).toEqual({
+      pricePerUnit: 0.04,
+      grossAmount: 320 * 0.04,
+      discountQuantity: 300,
+      discountAmount: 300 * 0.04,
+      netQuantity: 20,
+      netAmount: 20 * 0.04,
+    })
+    const output = renderMarkdown(data, 'pro', 300, { overagePrice: 0.04 })
+    expect(output).toContain('| Billed | **$0.80** so far |')
+  })
+
+  test('prefers the pricing of the billing API', () => {
+    const cost = {
+      pricePerUnit: 0.04,
+      grossAmount: 4,
+      discountQuantity: 100,
+      discountAmount: 4,
+      netQuantity: 0,
+      netAmount: 0,
+    }
+    const data = makeUsageData({ totalUsage: 100, cost })
+    expect(getUsageCost(data, 300, 0.1)).toBe(cost)
+    expect(getUsageCost(makeUsageData(), 300)).toBeNull()
+  })
+})
+
+describe('plan changes', () => {
+  const planSegments: PlanSegment[] = [
+    { label: 'pro', allowance: 300, firstDay: 1, lastDay: 11 },
+    { label: 'pro+', allowance: 1500, firstDay: 12, lastDay: 30 },
+  ]
+  const data = makeUsageData({ totalUsage: 400 })
+
+  test('show both plans and the prorated limit in the header', () => {
+    const output = Bun.stripANSI(
+      renderDisplay(data, 'pro+', 1060, { ...RENDER_OPTIONS, planSegments }),
+    )
+    expect(output).toContain(
+      'Pro 1–11 (300) + Pro+ 12–30 (1500) = 1060 prorated',
+    )
+    expect(output).toContain('Overall:  400/1060 (37.7%)')
+  })
+
+  test('judge the pace against the accrued allowance', () => {
+    // Nearly half of the month, but only 27% of the allowance accrued
+    expect(renderLine(data, 'pro+', 1060, '{pct}')).toBe(
+      '\x1B[32m37.7%\x1B[39m',
+    )
+    expect(renderLine(data, 'pro+', 1060, '{pct}', { planSegments })).toBe(
+      '\x1B[33m37.7%\x1B[39m',
+    )
+  })
+
+  test('are listed in markdown reports', () => {
+    const output = renderMarkdown(data, 'pro+', 1060, { planSegments })
+    expect(output).toContain(
+      '| Plans | Pro 1–11 (300) + Pro+ 12–30 (1500) = 1060 prorated |',
+    )
+    expect(output).toContain(
+      '37.7% of the limit used with 26.9% of the prorated allowance accrued.',
+    )
+  })
+})
+
+describe('drawSparkline', () => {
+  test('scales values to the row maximum', () => {
+    expect(drawSparkline([1, 2, 4, 8])).toBe('▁▂▄█')
+  })
+
+  test('renders zero values as blanks', () => {
+    expect(drawSparkline([0, 5, 0])).toBe(' █ ')
+  })
+
+  test('renders an all-zero row as blanks', () => {
+    expect(drawSparkline([0, 0])).toBe('  ')
+  })
+})
+
+describe('renderHistory', () => {
+  function makeHistory(): UsageData[] {
+    return [
+      makeUsageData({
+        month: '04',
+        monthName: 'April',
+        currentDay: 30,
+        closed: true,
+        totalUsage: 120,
+        modelCounts: new Map([['gpt-4o', 120]]),
+      }),
+      makeUsageData({
+        month: '05',
+        monthName: 'May',
+        currentDay: 31,
+        daysInMonth: 31,
+        closed: true,
+        totalUsage: 310,
+        modelCounts: new Map([
+          ['gpt-4o', 200],
+          ['claude-sonnet-4', 110],
+        ]),
+      }),
+      makeUsageData({
+        totalUsage: 180,
+        modelCounts: new Map([
+          ['gpt-4o', 30],
+          ['claude-sonnet-4', 150],
+        ]),
+      }),
+    ]
+  }
+
+  test('lists every month with month-over-month deltas', () => {
+    const result = renderHistory(makeHistory(), 'pro', 300, RENDER_OPTIONS)
+    expect(result).toContain('Apr 2025')
+    expect(result).toContain('May 2025')
+    expect(result).toContain('Jun 2025*')
+    expect(result).toContain('+190')
+    expect(result).toContain('-130')
+  })
+
+  test('stamps the time cached data was fetched', () => {
+    const result = renderHistory(makeHistory(), 'pro', 300, {
+      ...RENDER_OPTIONS,
+      dataAsOf: new Date('2025-06-14T08:30:00Z'),
+    })
+    expect(result).toContain('Data as of 2025-06-14 08:30 UTC')
+  })
+
+  test('each output line fits within the given width', () => {
+    const result = renderHistory(makeHistory(), 'pro', 300, RENDER_OPTIONS)
+    for (const line of result.split('\n')) {
+      expect(Bun.stringWidth(line)).toBeLessThanOrEqual(RENDER_OPTIONS.width)
+    }
+  })
+
+  test('applies the limit of each month', () => {
+    const result = Bun.stripANSI(
+      renderHistory(makeHistory(), 'pro', [300, 310, 1500], RENDER_OPTIONS),
+    )
+    expect(result).toMatch(/May 2025 +310 +100\.0%/)
+    expect(result).toMatch(/Jun 2025\* +180 +12\.0%/)
+  })
+
+  test('handles a history without usage', () => {
+    const result = renderHistory([makeUsageData()], 'pro', 300, RENDER_OPTIONS)
+    expect(result).toContain('No premium requests used in this period.')
+  })
+
+  test('snapshot', () => {
+    const result = renderHistory(makeHistory(), 'pro', 300, RENDER_OPTIONS)
+    expect(result).toMatchSnapshot()
+  })
+})
+
+describe('renderLeaderboard', () => {
+  const members = [
+    { login: 'bob', totalUsage: 290, topModel: 'o3' },
+    { login: 'alice', totalUsage: 230, topModel: 'claude-sonnet-4' },
+    { login: 'dave', totalUsage: 40, topModel: 'gpt-4o' },
+    { login: 'carol', totalUsage: 0, topModel: null },
+  ]
+  const period = { year: 2025, month: 6 }
+
+  test('lists members in the given order with ranks', () => {
+    const result = Bun.stripANSI(
+      renderLeaderboard(
+        members,
+        'acme',
+        period,
+        'business',
+        300,
+        RENDER_OPTIONS,
+      ),
+    )
+    expect(result.indexOf('1.  bob')).toBeLessThan(result.indexOf('2.  alice'))
+    expect(result).toContain('June 2025 • acme (organization)')
+    expect(result).toContain('560 requests, 3 of 4 members active')
+  })
+
+  test('colours bars by the share of the individual allowance', () => {
+    const result = renderLeaderboard(
+      members,
+      'acme',
+      period,
+      'business',
+      300,
+      RENDER_OPTIONS,
+    )
+    const bobLine = result.split('\n').find((line) => line.includes('bob'))
+    const daveLine = result.split('\n').find((line) => line.includes('dave'))
+    expect(bobLine).toContain('\x1B[31m') // 96.7% → red
+    expect(daveLine).toContain('\x1B[32m') // 13.3% → green
+  })
+
+  test('each output line fits within the given width', () => {
+    for (const width of [60, 80, 100]) {
+      const result = renderLeaderboard(
+        members,
+        'acme',
+        period,
+        'business',
+        300,
+        { width },
+      )
+      for (const line of result.split('\n')) {
+        expect(Bun.stringWidth(line)).toBeLessThanOrEqual(width)
+      }
+    }
+  })
+
+  test('snapshot', () => {
+    const result = renderLeaderboard(
+      members,
+      'acme',
+      period,
+      'business',
+      300,
+      RENDER_OPTIONS,
+    )
+    expect(result).toMatchSnapshot()
+  })
+})
@@ -1,11 +1,26 @@
 import { styleText } from 'node:util'
-import type { UsageData } from './usage.ts'
+import { computeForecast } from './forecast.ts'
+import {
+  type PlanSegment,
+  getAccruedFraction,
+  getProratedAllowance,
+} from './prorate.ts'
+import { type BillingScope, getScopeName } from './scope.ts'
+import {
+  type BillingPeriod,
+  type UsageCost,
+  type UsageData,
+  getCycleProgress,
+  getMonthName,
+} from './usage.ts'
+import type { MemberUsage } from './users.ts'
 
 const MODEL_NAME_WIDTH = 22
 const MODEL_USAGE_COUNT_WIDTH = 5
 const MODEL_USAGE_PCT_WIDTH = 7
+const MODEL_DELTA_WIDTH = 6
 
-function toTitleCase(str: string): string {
+export function toTitleCase(str: string): string {
   return str.charAt(0).toUpperCase() + str.slice(1)
 }
 
@@ -13,6 +28,29 @@ function dim(text: string): string {
   return styleText('dim', text)
 }
 
+/** Header stamp of reports rendered from cached API responses */
+function drawDataAsOfLines(
+  dataAsOf: Date | undefined,
+  center: (text: string) => string,
+): string[] {
+  if (dataAsOf === undefined) return []
+  const stamp = dataAsOf.toISOString().slice(0, 16).replace('T', ' ')
+  return [center(dim(`Data as of ${stamp} UTC`))]
+}
+
+export function formatScope(scope: BillingScope): string {
+  switch (scope.type) {
+    case 'user':
+      return scope.username
+    case 'org':
+      return `${getScopeName(scope)} (organization)`
+    case 'enterprise':
+      return scope.costCenter === undefined
+        ? `${getScopeName(scope)} (enterprise)`
+        : `${getScopeName(scope)} • cost center ${scope.costCenter}`
+  }
+}
+
 export function getOverallColor(
   percentage: number,
   monthProgress: number,
@@ -25,17 +63,54 @@ export function getOverallColor(
   return 'red'
 }
 
+/**
+ * Fraction of the limit an even pace would have used by now, by the hour.
+ * After a plan change, each day accrues the allowance of the plan it was on.
+ */
+export function getPaceProgress(
+  data: UsageData,
+  planSegments?: PlanSegment[],
+): number {
+  const progress = getCycleProgress(data)
+  return planSegments
+    ? getAccruedFraction(planSegments, progress * data.daysInMonth)
+    : progress
+}
+
+/** e.g. `Pro 1–11 (300) + Pro+ 12–30 (1500) = 1060 prorated` */
+export function formatPlanSegments(segments: PlanSegment[]): string {
+  const parts = segments.map(({ label, allowance, firstDay, lastDay }) => {
+    const days = firstDay === lastDay ? firstDay : `${firstDay}–${lastDay}`
+    return `${toTitleCase(label)} ${days} (${allowance})`
+  })
+  return `${parts.join(' + ')} = ${getProratedAllowance(segments)} prorated`
+}
+
 export function getModelColor(percentage: number): 'green' | 'yellow' | 'red' {
   if (percentage < 75) return 'green'
   if (percentage < 90) return 'yellow'
   return 'red'
 }
 
-function formatPercentage(pct: number): string {
+export function formatPercentage(pct: number): string {
   if (pct >= 1000) return `${(pct / 1000).toFixed(1)}k%`
   return `${pct.toFixed(1)}%`
 }
 
+function formatRate(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(1)
+}
+
+export function formatMoney(amount: number): string {
+  return `$${amount.toFixed(2)}`
+}
+
+function getForecastColor(percentage: number): 'green' | 'yellow' | 'red' {
+  if (percentage < 90) return 'green'
+  if (percentage < 100) return 'yellow'
+  return 'red'
+}
+
 function drawBar(
   used: number,
   total: number,
@@ -48,15 +123,8 @@ function drawBar(
   return styleText(color, '█'.repeat(filled)) + dim('░'.repeat(empty))
 }
 
-function drawMonthProgressBar(
-  currentDay: number,
-  totalDays: number,
-  width: number,
-): string {
-  const filled = Math.min(
-    Math.floor((currentDay * width) / totalDays),
-    width - 1,
-  )
+function drawMonthProgressBar(progress: number, width: number): string {
+  const filled = Math.min(Math.floor(progress * width), width - 1)
   const empty = width - filled - 1
   return dim('⋅'.repeat(filled)) + '|' + dim('⋅'.repeat(empty))
 }
@@ -99,6 +167,96 @@ function printBoxLeftRight(
   return dim('│ ') + leftText + ' '.repeat(gap) + rightText + dim(' │')
 }
 
+const DAILY_CHART_HEIGHT = 8
+const DAILY_AXIS_WIDTH = 5
+const BAR_EIGHTHS = '▁▂▃▄▅▆▇█'
+
+/**
+ * Vertical bar chart of daily usage, one column per day of the month,
+ * with the even-pacing level drawn across as a dotted line.
+ */
+export function drawDailyChart(
+  daily: number[],
+  today: number | null,
+  daysInMonth: number,
+  pace: number,
+  width: number,
+): string[] {
+  const plotWidth = width - DAILY_AXIS_WIDTH - 2
+  const columnWidth = plotWidth >= daysInMonth * 2 ? 2 : 1
+  const max = Math.max(pace, ...daily)
+  const scale = (DAILY_CHART_HEIGHT * 8) / max
+  const paceRow = Math.min(
+    Math.floor((pace * DAILY_CHART_HEIGHT) / max),
+    DAILY_CHART_HEIGHT - 1,
+  )
+
+  const lines: string[] = []
+  for (let row = DAILY_CHART_HEIGHT - 1; row >= 0; row--) {
+    let label = ''
+    if (row === DAILY_CHART_HEIGHT - 1) label = String(Math.round(max))
+    else if (row === paceRow) label = String(Math.round(pace))
+    const tick = label ? '┤' : '│'
+
+    let cells = ''
+    for (let day = 1; day <= daysInMonth; day++) {
+      const value = daily[day - 1] ?? 0
+      const height = value > 0 ? Math.max(1, Math.round(value * scale)) : 0
+      const eighths = height - row * 8
+      let cell: string
+      if (eighths > 0) {
+        const block = BAR_EIGHTHS[Math.min(eighths, 8) - 1]!
+        cell = styleText(value > pace ? 'red' : 'green', block)
+      } else if (row === paceRow) {
+        cell = dim('┄')
+      } else {
+        cell = ' '
+      }
+      const gap = columnWidth === 2 ? (row === paceRow ? dim('┄') : ' ') : ''
+      cells += cell + (day < daysInMonth ? gap : '')
+    }
+    lines.push(dim(label.padStart(DAILY_AXIS_WIDTH) + ' ' + tick) + cells)
+  }
+
+  const axisLength = daysInMonth * columnWidth - (columnWidth - 1)
+  lines.push(
+    dim('0'.padStart(DAILY_AXIS_WIDTH) + ' └' + '─'.repeat(axisLength)),
+  )
+  if (today !== null) {
+    lines.push(
+      ' '.repeat(DAILY_AXIS_WIDTH + 2 + (today - 1) * columnWidth) +
+        dim('▲ today'),
+    )
+  }
+  return lines
+}
+
+/**
+ * e.g. `July 1, 2025 at 00:00 UTC (Jun 30, 17:00 PDT)`, the time in
+ * `timeZone` being left out when it is the same as UTC.
+ */
+export function formatResetDate(resetDate: Date, timeZone?: string): string {
+  const month = resetDate.toLocaleString('en-US', {
+    month: 'long',
+    timeZone: 'UTC',
+  })
+  const utc = `${month} 1, ${resetDate.getUTCFullYear()} at 00:00 UTC`
+  if (timeZone === undefined) return utc
+
+  const format = (zone: string) =>
+    resetDate.toLocaleString('en-US', {
+      timeZone: zone,
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+      timeZoneName: 'short',
+    })
+  const local = format(timeZone)
+  return local === format('UTC') ? utc : `${utc} (${local})`
+}
+
 const SEVEN_DAYS_MS = 7 * 24 * 60 * 60 * 1000
 
 export function formatTimeUntilReset(
@@ -120,15 +278,154 @@ export function formatTimeUntilReset(
   return `in ${totalHours}h ${remainingMinutes}min`
 }
 
+/**
+ * One line per non-zero entry, sorted by usage descending, with a bar
+ * showing its share of the limit. With `deltas`, a column showing each
+ * entry's increase is carved out of the bars, and the entries that
+ * increased are highlighted.
+ */
+function drawBreakdownLines(
+  counts: Map<string, number>,
+  limit: number,
+  barWidth: number,
+  deltas?: Map<string, number>,
+  limits?: Record<string, number>,
+): string[] {
+  const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])
+  const lines: string[] = []
+  for (const [name, count] of sorted) {
+    if (count === 0) continue
+
+    const itemLimit = limits?.[name] ?? limit
+    const pctValue = (count / itemLimit) * 100
+    const pct = formatPercentage(pctValue)
+    let nameDisplay = name
+    if (name.length > MODEL_NAME_WIDTH) {
+      nameDisplay = name.substring(0, MODEL_NAME_WIDTH - 1) + '…'
+    }
+
+    const delta = deltas?.get(name) ?? 0
+    const smallBar = drawBar(
+      count,
+      itemLimit,
+      deltas ? barWidth - MODEL_DELTA_WIDTH : barWidth,
+      getModelColor(pctValue),
+    )
+    const nameCell = nameDisplay.padEnd(MODEL_NAME_WIDTH)
+    const deltaCell = !deltas
+      ? ''
+      : delta > 0
+        ? styleText(
+            ['yellow', 'bold'],
+            `+${formatRate(delta)}`.padStart(MODEL_DELTA_WIDTH),
+          )
+        : ' '.repeat(MODEL_DELTA_WIDTH)
+    lines.push(
+      `${delta > 0 ? styleText('bold', nameCell) : nameCell}${String(Math.round(count)).padStart(MODEL_USAGE_COUNT_WIDTH)} ${smallBar} ${pct.padStart(MODEL_USAGE_PCT_WIDTH)}${deltaCell}`,
+    )
+  }
+  return lines
+}
+
+const LINE_BAR_WIDTH = 5
+
+export const LINE_TEMPLATE_FIELDS = [
+  'used',
+  'limit',
+  'remaining',
+  'pct',
+  'bar',
+  'day',
+  'days',
+  'plan',
+  'name',
+] as const
+
+export const DEFAULT_LINE_TEMPLATE =
+  '⚡ {used}/{limit} {pct} {bar} d{day}/{days}'
+
+/**
+ * Single line summary for shell prompts and status bars, filling the
+ * `{field}` placeholders of `template` (see `LINE_TEMPLATE_FIELDS`).
+ */
+export function renderLine(
+  data: UsageData,
+  plan: string,
+  limit: number,
+  template = DEFAULT_LINE_TEMPLATE,
+  { planSegments }: Pick<RenderOptions, 'planSegments'> = {},
+): string {
+  const { totalUsage, currentDay, daysInMonth } = data
+  const percentage = (totalUsage / limit) * 100
+  const color = getOverallColor(percentage, getPaceProgress(data, planSegments))
+
+  const fields: Record<(typeof LINE_TEMPLATE_FIELDS)[number], string> = {
+    used: String(Math.round(totalUsage)),
+    limit: String(limit),
+    remaining: String(Math.max(0, Math.round(limit - totalUsage))),
+    pct: styleText(color, formatPercentage(percentage)),
+    bar: `▕${drawBar(totalUsage, limit, LINE_BAR_WIDTH, color)}▏`,
+    day: String(currentDay),
+    days: String(daysInMonth),
+    plan,
+    name: getScopeName(data.scope),
+  }
+  return template.replace(/\{(\w+)\}/g, (placeholder, field: string) =>
+    field in fields ? fields[field as keyof typeof fields] : placeholder,
+  )
+}
+
 export type RenderOptions = {
   width: number
+  /** When rendering cached responses, the time they were fetched */
+  dataAsOf?: Date
+  /** Per-model increase since the previous refresh, in watch mode */
+  modelDeltas?: Map<string, number>
+  /** Price of a request beyond the limit, when the API doesn't price usage */
+  overagePrice?: number
+  /** Allowances of individual models, instead of the limit */
+  modelLimits?: Record<string, number>
+  /** Plans of a month with a plan change, whose limit is prorated */
+  planSegments?: PlanSegment[]
+  /** Time zone the reset time is also shown in, e.g. the local one */
+  timeZone?: string
+}
+
+/**
+ * Billing totals of the period, estimated from `overagePrice` (of a custom
+ * plan) when the billing API returned no pricing.
+ */
+export function getUsageCost(
+  data: UsageData,
+  limit: number,
+  overagePrice?: number,
+): UsageCost | null {
+  if (data.cost || overagePrice === undefined) return data.cost
+  const included = Math.min(data.totalUsage, limit)
+  const overage = Math.max(0, data.totalUsage - limit)
+  return {
+    pricePerUnit: overagePrice,
+    grossAmount: data.totalUsage * overagePrice,
+    discountQuantity: included,
+    discountAmount: included * overagePrice,
+    netQuantity: overage,
+    netAmount: overage * overagePrice,
+  }
 }
 
 export function renderDisplay(
   data: UsageData,
   plan: string,
   limit: number,
-  { width }: RenderOptions,
+  {
+    width,
+    dataAsOf,
+    modelDeltas,
+    overagePrice,
+    modelLimits,
+    planSegments,
+    timeZone,
+  }: RenderOptions,
 ): string {
   const boxOuterWidth = width
   const boxInnerWidth = boxOuterWidth - 4
@@ -141,7 +438,7 @@ export function renderDisplay(
     2
 
   const {
-    username,
+    scope,
     year,
     monthName,
     totalUsage,
@@ -150,61 +447,141 @@ export function renderDisplay(
     daysInMonth,
     nextResetDate,
     now,
+    closed,
   } = data
 
   const percentage = (totalUsage / limit) * 100
-  const monthProgress = currentDay / daysInMonth
-  const color = getOverallColor(percentage, monthProgress)
+  const color = getOverallColor(percentage, getPaceProgress(data, planSegments))
 
-  const nextMonthName = nextResetDate.toLocaleString('en-US', { month: 'long' })
-  const nextYear = nextResetDate.getFullYear()
+  const resetDate = formatResetDate(nextResetDate, timeZone)
   const timeUntilReset =
-    width >= 60 ? formatTimeUntilReset(now, nextResetDate) : null
-  const resetLabel = styleText(
-    color === 'green' ? 'dim' : color,
-    `Resets:   ${nextMonthName} 1, ${nextYear} at 00:00 UTC`,
-  )
+    !closed && width >= 60 ? formatTimeUntilReset(now, nextResetDate) : null
+  const resetLabel = closed
+    ? dim(`Closed:   Period ended ${resetDate}`)
+    : styleText(color === 'green' ? 'dim' : color, `Resets:   ${resetDate}`)
 
   const center = (text: string) => printBoxLine(text, boxInnerWidth)
   const left = (text: string) => printBoxLeft(text, boxInnerWidth)
 
-  const hasUsage = Array.from(modelCounts.values()).some((count) => count > 0)
-  let modelLines: string
+  const forecast = closed ? null : computeForecast(data, limit)
+  const forecastLines: string[] = []
+  if (forecast) {
+    const formatProjection = (projected: number) => {
+      const projectedPct = (projected / limit) * 100
+      return `${styleText('bold', String(Math.round(projected)))}${dim('/' + limit + ' (')}${styleText(getForecastColor(projectedPct), formatPercentage(projectedPct))}${dim(')')}`
+    }
 
-  if (!hasUsage) {
-    modelLines = left('No premium requests used yet.')
-  } else {
-    const modelsSorted = Array.from(modelCounts.entries()).sort(
-      (a, b) => b[1] - a[1],
+    forecastLines.push(
+      drawBoxSeparator(boxInnerWidth),
+      left(
+        `Forecast: ${formatProjection(forecast.linear)} ${dim(`by ${monthName} ${daysInMonth}`)}`,
+      ),
     )
-    const lines: string[] = []
-    for (const [model, modelCount] of modelsSorted) {
-      if (modelCount === 0) continue
-
-      const modelPctValue = (modelCount / limit) * 100
-      const modelPct = formatPercentage(modelPctValue)
-      let modelDisplay = model
-      if (model.length > MODEL_NAME_WIDTH) {
-        modelDisplay = model.substring(0, MODEL_NAME_WIDTH - 1) + '…'
-      }
+    if (forecast.weighted !== null) {
+      forecastLines.push(
+        left(
+          `Recent:   ${formatProjection(forecast.weighted)} ${dim('at the recent daily rate')}`,
+        ),
+      )
+    }
 
-      const smallBar = drawBar(
-        modelCount,
+    let limitLine: string
+    if (forecast.exhausted) {
+      limitLine = styleText('red', 'Already reached')
+    } else if (forecast.exhaustionDay !== null) {
+      limitLine = styleText(
+        'red',
+        `Hit on ${monthName} ${forecast.exhaustionDay} at the current rate`,
+      )
+    } else {
+      limitLine = dim('Not hit this cycle at the current rate')
+    }
+    const budgetLine = forecast.exhausted
+      ? dim('No requests left this cycle')
+      : `${styleText('bold', formatRate(forecast.dailyAllowance))}${dim(' requests/day to stay within the limit')}`
+    forecastLines.push(
+      left(`Limit:    ${limitLine}`),
+      left(`Budget:   ${budgetLine}`),
+    )
+  }
+
+  const costLines: string[] = []
+  const cost = getUsageCost(data, limit, overagePrice)
+  if (cost) {
+    costLines.push(
+      drawBoxSeparator(boxInnerWidth),
+      left(
+        `Included: ${styleText('bold', String(Math.round(cost.discountQuantity)))}${dim(' requests covered by the plan')}`,
+      ),
+      left(
+        `Overage:  ${styleText('bold', String(Math.round(cost.netQuantity)))}${dim(` requests at ${formatMoney(cost.pricePerUnit)} each`)}`,
+      ),
+      left(
+        `Billed:   ${styleText(cost.netAmount > 0 ? ['red', 'bold'] : 'bold', formatMoney(cost.netAmount))}${dim(closed ? ' for the period' : ' so far')}`,
+      ),
+    )
+    if (forecast) {
+      const projected = forecast.weighted ?? forecast.linear
+      const projectedBill = Math.max(
+        cost.netAmount,
+        Math.max(0, projected - limit) * cost.pricePerUnit,
+      )
+      costLines.push(
+        left(
+          `Estimate: ${styleText('bold', formatMoney(projectedBill))}${dim(` by ${monthName} ${daysInMonth} at the current rate`)}`,
+        ),
+      )
+    }
+  }
+
+  const dailyLines: string[] = []
+  if (data.dailyUsage) {
+    const pace = limit / daysInMonth
+    dailyLines.push(
+      drawBoxSeparator(boxInnerWidth),
+      left(dim(`Daily usage (┄ even pace: ${formatRate(pace)}/day):`)),
+      center(''),
+      ...drawDailyChart(
+        data.dailyUsage,
+        closed ? null : currentDay,
+        daysInMonth,
+        pace,
+        boxInnerWidth,
+      ).map(left),
+    )
+  }
+
+  const hasUsage = Array.from(modelCounts.values()).some((count) => count > 0)
+  const modelLines = hasUsage
+    ? drawBreakdownLines(
+        modelCounts,
         limit,
         smallBarWidth,
-        getModelColor(modelPctValue),
+        modelDeltas,
+        modelLimits,
       )
-      const modelLine = `${modelDisplay.padEnd(MODEL_NAME_WIDTH)}${String(Math.round(modelCount)).padStart(MODEL_USAGE_COUNT_WIDTH)} ${smallBar} ${modelPct.padStart(MODEL_USAGE_PCT_WIDTH)}`
-      lines.push(left(modelLine))
-    }
-    modelLines = lines.join('\n')
+        .map(left)
+        .join('\n')
+    : left('No premium requests used yet.')
+
+  const orgLines: string[] = []
+  if (data.orgCounts.size > 0) {
+    orgLines.push(
+      drawBoxSeparator(boxInnerWidth),
+      left(dim('Per-organization usage:')),
+      center(''),
+      ...drawBreakdownLines(data.orgCounts, limit, smallBarWidth).map(left),
+      center(''),
+    )
   }
 
   return [
     drawBoxTop(boxInnerWidth),
     center(''),
     center(`GitHub Copilot ${toTitleCase(plan)} - Premium Requests Usage`),
-    center(`${monthName} ${year} • ${username}`),
+    center(`${monthName} ${year} • ${formatScope(scope)}`),
+    ...(planSegments ? [center(dim(formatPlanSegments(planSegments)))] : []),
+    ...drawDataAsOfLines(dataAsOf, center),
     center(''),
     drawBoxSeparator(boxInnerWidth),
     left(
@@ -212,12 +589,16 @@ export function renderDisplay(
     ),
     left(`Usage:    ${drawBar(totalUsage, limit, largeBarWidth, color)}`),
     left(
-      `Month:    ${drawMonthProgressBar(currentDay, daysInMonth, largeBarWidth)}`,
+      `Month:    ${drawMonthProgressBar(getCycleProgress(data), largeBarWidth)}`,
     ),
     center(''),
     timeUntilReset
       ? printBoxLeftRight(resetLabel, dim(timeUntilReset), boxInnerWidth)
       : left(resetLabel),
+    ...forecastLines,
+    ...costLines,
+    ...dailyLines,
+    ...orgLines,
     drawBoxSeparator(boxInnerWidth),
     left(dim('Per-model usage:')),
     center(''),
@@ -227,3 +608,416 @@ export function renderDisplay(
     '',
   ].join('\n')
 }
+
+const MARKDOWN_BAR_WIDTH = 20
+
+const PACING_NOTES = {
+  green: '🟢 **On pace**',
+  yellow: '🟡 **Ahead of pace**',
+  red: '🔴 **Well ahead of pace**',
+} as const
+
+/** Unicode bar without colors, for markdown table cells */
+function drawPlainBar(used: number, total: number, width: number): string {
+  const filled = Math.floor((Math.min(used, total) * width) / total)
+  return '█'.repeat(filled) + '░'.repeat(width - filled)
+}
+
+function escapeMarkdownCell(text: string): string {
+  return text.replaceAll('|', '\\|')
+}
+
+/**
+ * GitHub-flavoured markdown version of `renderDisplay`, without ANSI
+ * codes, for issues, pull requests and wikis.
+ */
+export function renderMarkdown(
+  data: UsageData,
+  plan: string,
+  limit: number,
+  {
+    dataAsOf,
+    overagePrice,
+    modelLimits,
+    planSegments,
+    timeZone,
+  }: Pick<
+    RenderOptions,
+    'dataAsOf' | 'overagePrice' | 'modelLimits' | 'planSegments' | 'timeZone'
+  > = {},
+): string {
+  const {
+    scope,
+    year,
+    monthName,
+    totalUsage,
+    modelCounts,
+    currentDay,
+    daysInMonth,
+    nextResetDate,
+    closed,
+  } = data
+
+  const percentage = (totalUsage / limit) * 100
+  const monthProgress = getCycleProgress(data)
+  const paceProgress = getPaceProgress(data, planSegments)
+  const color = getOverallColor(percentage, paceProgress)
+  const resetDate = formatResetDate(nextResetDate, timeZone)
+
+  const rows: [string, string][] = [
+    [
+      'Overall',
+      `**${Math.round(totalUsage)}**/${limit} (${formatPercentage(percentage)})`,
+    ],
+    ...(planSegments
+      ? [['Plans', formatPlanSegments(planSegments)] as [string, string]]
+      : []),
+    ['Usage', drawPlainBar(totalUsage, limit, MARKDOWN_BAR_WIDTH)],
+    [
+      'Month',
+      `Day ${currentDay} of ${daysInMonth} (${formatPercentage(monthProgress * 100)})`,
+    ],
+    closed ? ['Closed', `Period ended ${resetDate}`] : ['Resets', resetDate],
+  ]
+
+  const forecast = closed ? null : computeForecast(data, limit)
+  if (forecast) {
+    const formatProjection = (projected: number) =>
+      `${Math.round(projected)}/${limit} (${formatPercentage((projected / limit) * 100)})`
+    rows.push([
+      'Forecast',
+      `${formatProjection(forecast.linear)} by ${monthName} ${daysInMonth}`,
+    ])
+    if (forecast.weighted !== null) {
+      rows.push([
+        'Recent',
+        `${formatProjection(forecast.weighted)} at the recent daily rate`,
+      ])
+    }
+    let limitNote: string
+    if (forecast.exhausted) {
+      limitNote = 'Already reached'
+    } else if (forecast.exhaustionDay !== null) {
+      limitNote = `Hit on ${monthName} ${forecast.exhaustionDay} at the current rate`
+    } else {
+      limitNote = 'Not hit this cycle at the current rate'
+    }
+    rows.push(
+      ['Limit', limitNote],
+      [
+        'Budget',
+        forecast.exhausted
+          ? 'No requests left this cycle'
+          : `${formatRate(forecast.dailyAllowance)} requests/day to stay within the limit`,
+      ],
+    )
+  }
+
+  const cost = getUsageCost(data, limit, overagePrice)
+  if (cost) {
+    rows.push(
+      [
+        'Included',
+        `${Math.round(cost.discountQuantity)} requests covered by the plan`,
+      ],
+      [
+        'Overage',
+        `${Math.round(cost.netQuantity)} requests at ${formatMoney(cost.pricePerUnit)} each`,
+      ],
+      [
+        'Billed',
+        `**${formatMoney(cost.netAmount)}**${closed ? ' for the period' : ' so far'}`,
+      ],
+    )
+    if (forecast) {
+      const projected = forecast.weighted ?? forecast.linear
+      const projectedBill = Math.max(
+        cost.netAmount,
+        Math.max(0, projected - limit) * cost.pricePerUnit,
+      )
+      rows.push([
+        'Estimate',
+        `${formatMoney(projectedBill)} by ${monthName} ${daysInMonth} at the current rate`,
+      ])
+    }
+  }
+
+  if (data.dailyUsage) {
+    rows.push(['Daily', drawSparkline(data.dailyUsage)])
+  }
+
+  const breakdownTable = (
+    label: string,
+    counts: Map<string, number>,
+    limits?: Record<string, number>,
+  ) => [
+    `| ${label} | Requests | % of limit | |`,
+    '|---|---:|---:|---|',
+    ...Array.from(counts.entries())
+      .filter(([, count]) => count > 0)
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, count]) => {
+        const itemLimit = limits?.[name] ?? limit
+        return `| ${escapeMarkdownCell(name)} | ${Math.round(count)} | ${formatPercentage((count / itemLimit) * 100)} | ${drawPlainBar(count, itemLimit, MARKDOWN_BAR_WIDTH)} |`
+      }),
+  ]
+
+  const hasUsage = Array.from(modelCounts.values()).some((count) => count > 0)
+  // A closed period can only have stayed within the limit or not
+  const pacing = closed
+    ? `${percentage < 100 ? '🟢 **Within the limit**' : '🔴 **Over the limit**'}: ${formatPercentage(percentage)} of the limit used over the period.`
+    : `${PACING_NOTES[color]}: ${formatPercentage(percentage)} of the limit used with ${formatPercentage(paceProgress * 100)} of the ${planSegments ? 'prorated allowance accrued' : 'month elapsed'}.`
+
+  const lines = [
+    `## GitHub Copilot ${toTitleCase(plan)} - Premium Requests Usage`,
+    '',
+    `**${monthName} ${year}** • ${formatScope(scope)}`,
+    '',
+  ]
+  if (dataAsOf) {
+    const stamp = dataAsOf.toISOString().slice(0, 16).replace('T', ' ')
+    lines.push(`_Data as of ${stamp} UTC_`, '')
+  }
+  lines.push(
+    '| | |',
+    '|---|---|',
+    ...rows.map(([label, value]) => `| ${label} | ${value} |`),
+    '',
+    `> ${pacing}`,
+    '',
+  )
+  if (data.orgCounts.size > 0) {
+    lines.push(
+      '### Per-organization usage',
+      '',
+      ...breakdownTable('Organization', data.orgCounts),
+      '',
+    )
+  }
+  lines.push(
+    '### Per-model usage',
+    '',
+    ...(hasUsage
+      ? breakdownTable('Model', modelCounts, modelLimits)
+      : ['No premium requests used yet.']),
+    '',
+  )
+  return lines.join('\n')
+}
+
+const HISTORY_MONTH_WIDTH = 10
+const HISTORY_TOTAL_WIDTH = 6
+const HISTORY_PCT_WIDTH = 8
+const HISTORY_DELTA_WIDTH = 8
+const SPARKLINE_LEVELS = '▁▂▃▄▅▆▇█'
+
+export function drawSparkline(values: number[]): string {
+  const max = Math.max(0, ...values)
+  return values
+    .map((value) => {
+      if (max === 0 || value <= 0) return ' '
+      const level = Math.ceil((value / max) * SPARKLINE_LEVELS.length) - 1
+      return SPARKLINE_LEVELS[Math.max(0, level)]
+    })
+    .join('')
+}
+
+function formatDelta(delta: number): string {
+  const rounded = Math.round(delta)
+  if (rounded > 0) return `+${rounded}`
+  if (rounded < 0) return `${rounded}`
+  return '±0'
+}
+
+function formatShortMonth(data: UsageData): string {
+  return `${data.monthName.slice(0, 3)} ${data.year}`
+}
+
+/** `limit` is shared by every month, or given for each month of `history` */
+export function renderHistory(
+  history: UsageData[],
+  plan: string,
+  limit: number | number[],
+  { width, dataAsOf }: RenderOptions,
+): string {
+  const boxInnerWidth = width - 4
+  const barWidth =
+    boxInnerWidth -
+    HISTORY_MONTH_WIDTH -
+    HISTORY_TOTAL_WIDTH -
+    HISTORY_PCT_WIDTH -
+    HISTORY_DELTA_WIDTH -
+    2
+
+  const center = (text: string) => printBoxLine(text, boxInnerWidth)
+  const left = (text: string) => printBoxLeft(text, boxInnerWidth)
+
+  const first = history[0]
+  const last = history[history.length - 1]
+  const scopeLabel = last ? formatScope(last.scope) : ''
+  const range =
+    first && last
+      ? `${formatShortMonth(first)} – ${formatShortMonth(last)}`
+      : ''
+
+  const header = dim(
+    'Month'.padEnd(HISTORY_MONTH_WIDTH) +
+      'Total'.padStart(HISTORY_TOTAL_WIDTH) +
+      '% limit'.padStart(HISTORY_PCT_WIDTH) +
+      'Δ prev'.padStart(HISTORY_DELTA_WIDTH),
+  )
+
+  const monthLines = history.map((data, index) => {
+    const monthLimit = Array.isArray(limit) ? limit[index]! : limit
+    const percentage = (data.totalUsage / monthLimit) * 100
+    const color = getOverallColor(percentage, getCycleProgress(data))
+    const previous = history[index - 1]
+    const delta = previous
+      ? formatDelta(data.totalUsage - previous.totalUsage)
+      : '—'
+    const label = formatShortMonth(data) + (data.closed ? '' : '*')
+    return left(
+      label.padEnd(HISTORY_MONTH_WIDTH) +
+        String(Math.round(data.totalUsage)).padStart(HISTORY_TOTAL_WIDTH) +
+        formatPercentage(percentage).padStart(HISTORY_PCT_WIDTH) +
+        dim(delta.padStart(HISTORY_DELTA_WIDTH)) +
+        '  ' +
+        drawBar(data.totalUsage, monthLimit, barWidth, color),
+    )
+  })
+
+  const models = new Map<string, number[]>()
+  history.forEach((data, index) => {
+    for (const [model, count] of data.modelCounts) {
+      const counts = models.get(model) ?? new Array(history.length).fill(0)
+      counts[index] = count
+      models.set(model, counts)
+    }
+  })
+  const modelsSorted = Array.from(models.entries())
+    .map(([model, counts]) => ({
+      model,
+      counts,
+      total: counts.reduce((sum, count) => sum + count, 0),
+    }))
+    .filter(({ total }) => total > 0)
+    .sort((a, b) => b.total - a.total)
+
+  const modelLines =
+    modelsSorted.length === 0
+      ? [left('No premium requests used in this period.')]
+      : modelsSorted.map(({ model, counts }) => {
+          let modelDisplay = model
+          if (model.length > MODEL_NAME_WIDTH) {
+            modelDisplay = model.substring(0, MODEL_NAME_WIDTH - 1) + '…'
+          }
+          const latest = counts[counts.length - 1] ?? 0
+          return left(
+            `${modelDisplay.padEnd(MODEL_NAME_WIDTH)}${drawSparkline(counts)} ${dim(String(Math.round(latest)).padStart(MODEL_USAGE_COUNT_WIDTH))}`,
+          )
+        })
+
+  const footer =
+    last && !last.closed ? [center(''), left(dim('* Month in progress'))] : []
+
+  return [
+    drawBoxTop(boxInnerWidth),
+    center(''),
+    center(`GitHub Copilot ${toTitleCase(plan)} - Premium Requests History`),
+    center(`${range} • ${scopeLabel}`),
+    ...drawDataAsOfLines(dataAsOf, center),
+    center(''),
+    drawBoxSeparator(boxInnerWidth),
+    left(header),
+    ...monthLines,
+    ...footer,
+    drawBoxSeparator(boxInnerWidth),
+    left(dim('Per-model trend:')),
+    center(''),
+    ...modelLines,
+    center(''),
+    drawBoxBottom(boxInnerWidth),
+    '',
+  ].join('\n')
+}
+
+const MEMBER_RANK_WIDTH = 4
+const MEMBER_LOGIN_WIDTH = 20
+const MEMBER_TOP_MODEL_WIDTH = 18
+
+export function renderLeaderboard(
+  members: MemberUsage[],
+  org: string,
+  period: BillingPeriod,
+  plan: string,
+  allowance: number,
+  { width, dataAsOf }: RenderOptions,
+): string {
+  const boxInnerWidth = width - 4
+  // The top model column only fits on wide layouts
+  const topModelWidth = width >= 80 ? MEMBER_TOP_MODEL_WIDTH : 0
+  const barWidth =
+    boxInnerWidth -
+    MEMBER_RANK_WIDTH -
+    MEMBER_LOGIN_WIDTH -
+    MODEL_USAGE_COUNT_WIDTH -
+    MODEL_USAGE_PCT_WIDTH -
+    topModelWidth -
+    (topModelWidth > 0 ? 3 : 2)
+
+  const center = (text: string) => printBoxLine(text, boxInnerWidth)
+  const left = (text: string) => printBoxLeft(text, boxInnerWidth)
+  const truncate = (text: string, maxWidth: number) =>
+    text.length > maxWidth ? text.substring(0, maxWidth - 1) + '…' : text
+
+  const totalUsage = members.reduce((sum, member) => sum + member.totalUsage, 0)
+  const activeCount = members.filter((member) => member.totalUsage > 0).length
+
+  const memberLines =
+    members.length === 0
+      ? [left('No members found.')]
+      : members.map((member, index) => {
+          const percentage = (member.totalUsage / allowance) * 100
+          const rank = dim(`${index + 1}.`.padEnd(MEMBER_RANK_WIDTH))
+          const login = truncate(member.login, MEMBER_LOGIN_WIDTH).padEnd(
+            MEMBER_LOGIN_WIDTH,
+          )
+          const count = String(Math.round(member.totalUsage)).padStart(
+            MODEL_USAGE_COUNT_WIDTH,
+          )
+          const bar = drawBar(
+            member.totalUsage,
+            allowance,
+            barWidth,
+            getModelColor(percentage),
+          )
+          const pct = formatPercentage(percentage).padStart(
+            MODEL_USAGE_PCT_WIDTH,
+          )
+          const topModel =
+            topModelWidth > 0
+              ? ' ' + dim(truncate(member.topModel ?? '—', topModelWidth))
+              : ''
+          return left(`${rank}${login}${count} ${bar} ${pct}${topModel}`)
+        })
+
+  return [
+    drawBoxTop(boxInnerWidth),
+    center(''),
+    center(`GitHub Copilot ${toTitleCase(plan)} - Premium Requests by Member`),
+    center(`${getMonthName(period)} ${period.year} • ${org} (organization)`),
+    ...drawDataAsOfLines(dataAsOf, center),
+    center(''),
+    drawBoxSeparator(boxInnerWidth),
+    left(
+      `Total:    ${styleText('bold', String(Math.round(totalUsage)))}${dim(` requests, ${activeCount} of ${members.length} members active`)}`,
+    ),
+    left(
+      `Included: ${styleText('bold', String(allowance))}${dim(' requests per member')}`,
+    ),
+    drawBoxSeparator(boxInnerWidth),
+    ...memberLines,
+    drawBoxBottom(boxInnerWidth),
+    '',
+  ].join('\n')
+}
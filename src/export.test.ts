@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { ExportWriteError, renderCsv, writeExport } from './export.ts'
+import { makeUsageData } from './test-utils.ts'
+import type { UsageCost } from './usage.ts'
+
+function makeCost(netQuantity: number): UsageCost {
+  return {
+    pricePerUnit: 0.04,
+    grossAmount: 0,
+    discountQuantity: 0,
+    discountAmount: 0,
+    netQuantity,
+    netAmount: netQuantity * 0.04,
+  }
+}
+
+describe('renderCsv', () => {
+  test('writes one row per model and period', () => {
+    const csv = renderCsv(
+      [
+        makeUsageData({
+          month: '05',
+          closed: true,
+          modelCounts: new Map([['gpt-4o', 120]]),
+        }),
+        makeUsageData({
+          modelCounts: new Map([
+            ['o3', 30.5],
+            ['claude-sonnet-4', 45],
+          ]),
+        }),
+      ],
+      300,
+    )
+    expect(csv).toBe(
+      [
+        'period,scope,name,model,quantity,percentage_of_limit',
+        '2025-05,user,octocat,gpt-4o,120,40',
+        '2025-06,user,octocat,claude-sonnet-4,45,15',
+        '2025-06,user,octocat,o3,30.5,10.17',
+        '',
+      ].join('\n'),
+    )
+  })
+
+  test('applies the limit of each period', () => {
+    const csv = renderCsv(
+      [
+        makeUsageData({
+          month: '05',
+          closed: true,
+          modelCounts: new Map([['gpt-4o', 120]]),
+        }),
+        makeUsageData({ modelCounts: new Map([['o3', 150]]) }),
+      ],
+      [300, 1500],
+    )
+    expect(csv).toContain('2025-05,user,octocat,gpt-4o,120,40')
+    expect(csv).toContain('2025-06,user,octocat,o3,150,10')
+  })
+
+  test('adds price columns when the API returned pricing', () => {
+    const csv = renderCsv(
+      [
+        makeUsageData({
+          modelCounts: new Map([
+            ['gpt-4o', 350],
+            ['o3', 5],
+          ]),
+          cost: makeCost(50),
+          modelCosts: new Map([['gpt-4o', makeCost(50)]]),
+        }),
+      ],
+      300,
+    )
+    const lines = csv.trimEnd().split('\n')
+    expect(lines[0]).toEndWith(
+      ',price_per_unit,gross_amount,discount_quantity,discount_amount,net_quantity,net_amount',
+    )
+    expect(lines[1]).toBe(
+      '2025-06,user,octocat,gpt-4o,350,116.67,0.04,0,0,0,50,2',
+    )
+    expect(lines[2]).toBe('2025-06,user,octocat,o3,5,1.67,,,,,,')
+  })
+
+  test('writes one row per model and day with the daily breakdown', () => {
+    const csv = renderCsv(
+      [
+        makeUsageData({
+          dailyModels: [
+            { day: 1, modelCounts: new Map(), modelCosts: new Map() },
+            {
+              day: 2,
+              modelCounts: new Map([['gpt-4o', 4]]),
+              modelCosts: new Map(),
+            },
+          ],
+        }),
+      ],
+      300,
+    )
+    expect(csv.trimEnd().split('\n')).toEqual([
+      'period,date,scope,name,model,quantity,percentage_of_limit',
+      '2025-06,2025-06-02,user,octocat,gpt-4o,4,1.33',
+    ])
+  })
+
+  test('names cost centers along with their enterprise', () => {
+    const csv = renderCsv(
+      [
+        makeUsageData({
+          scope: {
+            type: 'enterprise',
+            enterprise: 'megacorp',
+            costCenter: 'cc',
+          },
+          modelCounts: new Map([['gpt-4o', 1]]),
+        }),
+      ],
+      1000,
+    )
+    expect(csv).toContain('2025-06,enterprise,megacorp/cc,gpt-4o,1,0.1')
+  })
+
+  test('quotes fields with separators and quotes', () => {
+    const csv = renderCsv(
+      [makeUsageData({ modelCounts: new Map([['odd, "model"', 1]]) })],
+      300,
+    )
+    expect(csv).toContain(',"odd, ""model""",1,')
+  })
+})
+
+describe('writeExport', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gh-copilot-usage-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('writes the export to the file', async () => {
+    const path = join(dir, 'usage.csv')
+    expect(await writeExport(path, 'period\n')).toBeUndefined()
+    expect(await Bun.file(path).text()).toBe('period\n')
+  })
+
+  test('returns ExportWriteError when the file cannot be written', async () => {
+    const blocker = join(dir, 'file')
+    await Bun.write(blocker, '')
+    const written = await writeExport(join(blocker, 'usage.csv'), '')
+    expect(written).toBeInstanceOf(ExportWriteError)
+  })
+})
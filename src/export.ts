@@ -0,0 +1,121 @@
+import * as errore from 'errore'
+import { getScopeName } from './scope.ts'
+import type { UsageCost, UsageData } from './usage.ts'
+
+export class ExportWriteError extends errore.createTaggedError({
+  name: 'ExportWriteError',
+  message: 'Failed to write the export to "$path"',
+}) {}
+
+const USAGE_COLUMNS = [
+  'period',
+  'scope',
+  'name',
+  'model',
+  'quantity',
+  'percentage_of_limit',
+]
+
+const COST_COLUMNS = [
+  'price_per_unit',
+  'gross_amount',
+  'discount_quantity',
+  'discount_amount',
+  'net_quantity',
+  'net_amount',
+]
+
+/**
+ * Render usage as CSV, one row per model and billing period, or per model
+ * and day when the periods carry their `dailyModels` breakdown. Price
+ * columns are only added when the API returned pricing. `limit` is shared
+ * by every period, or given for each one when a plan change prorates it.
+ */
+export function renderCsv(
+  history: UsageData[],
+  limit: number | number[],
+): string {
+  const daily = history.some((data) => data.dailyModels !== undefined)
+  const priced = history.some((data) => data.cost !== null)
+  const header = [...USAGE_COLUMNS]
+  if (daily) header.splice(1, 0, 'date')
+  if (priced) header.push(...COST_COLUMNS)
+
+  const rows: string[][] = [header]
+  for (const [index, data] of history.entries()) {
+    const periodLimit = Array.isArray(limit) ? limit[index]! : limit
+    const period = `${data.year}-${data.month}`
+    const scope = [data.scope.type, getCsvScopeName(data)]
+    const groups = daily
+      ? (data.dailyModels ?? []).map((day) => ({
+          columns: [period, `${period}-${String(day.day).padStart(2, '0')}`],
+          ...day,
+        }))
+      : [
+          {
+            columns: [period],
+            modelCounts: data.modelCounts,
+            modelCosts: data.modelCosts ?? new Map<string, UsageCost>(),
+          },
+        ]
+
+    for (const { columns, modelCounts, modelCosts } of groups) {
+      const models = Array.from(modelCounts.entries()).sort(
+        (a, b) => b[1] - a[1] || a[0].localeCompare(b[0]),
+      )
+      for (const [model, quantity] of models) {
+        const row = [
+          ...columns,
+          ...scope,
+          model,
+          formatNumber(quantity),
+          formatNumber((quantity / periodLimit) * 100),
+        ]
+        if (priced) row.push(...formatCost(modelCosts.get(model)))
+        rows.push(row)
+      }
+    }
+  }
+
+  return rows.map((row) => row.map(escapeCsvField).join(',') + '\n').join('')
+}
+
+/** Cost centers are exported along with their enterprise */
+function getCsvScopeName(data: UsageData): string {
+  const name = getScopeName(data.scope)
+  if (data.scope.type === 'enterprise' && data.scope.costCenter !== undefined) {
+    return `${name}/${data.scope.costCenter}`
+  }
+  return name
+}
+
+function formatCost(cost: UsageCost | undefined): string[] {
+  if (!cost) return COST_COLUMNS.map(() => '')
+  return [
+    cost.pricePerUnit,
+    cost.grossAmount,
+    cost.discountQuantity,
+    cost.discountAmount,
+    cost.netQuantity,
+    cost.netAmount,
+  ].map(formatNumber)
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+/** Quote fields with separators, quotes or line breaks (RFC 4180) */
+function escapeCsvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replaceAll('"', '""')}"` : value
+}
+
+export async function writeExport(
+  path: string,
+  content: string,
+): Promise<void | ExportWriteError> {
+  const written = await Bun.write(path, content).catch(
+    (e: unknown) => new ExportWriteError({ path, cause: e }),
+  )
+  if (written instanceof ExportWriteError) return written
+}
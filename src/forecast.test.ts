@@ -0,0 +1,80 @@
+import { describe, expect, test } from 'bun:test'
+import { computeForecast } from './forecast.ts'
+import { makeUsageData as makeFixtureData } from './test-utils.ts'
+import type { UsageData } from './usage.ts'
+
+/** Forecasts are made on the 10th */
+function makeUsageData(overrides: Partial<UsageData> = {}): UsageData {
+  return makeFixtureData({
+    currentDay: 10,
+    now: new Date(Date.UTC(2025, 5, 10)),
+    ...overrides,
+  })
+}
+
+describe('computeForecast', () => {
+  test('projects end-of-month usage linearly', () => {
+    const forecast = computeForecast(makeUsageData({ totalUsage: 50 }), 300)
+    expect(forecast.linear).toBe(150)
+    expect(forecast.rate).toBe(5)
+  })
+
+  test('has no weighted projection without daily data', () => {
+    const forecast = computeForecast(makeUsageData({ totalUsage: 50 }), 300)
+    expect(forecast.weighted).toBeNull()
+  })
+
+  test('weights recent completed days more heavily', () => {
+    // Quiet start, heavy last few days: the weighted rate is above average
+    const dailyUsage = [0, 0, 0, 0, 0, 0, 10, 10, 10, 5]
+    const forecast = computeForecast(
+      makeUsageData({ totalUsage: 35, dailyUsage }),
+      300,
+    )
+    expect(forecast.weighted).not.toBeNull()
+    expect(forecast.weighted!).toBeGreaterThan(forecast.linear)
+    expect(forecast.rate).toBeGreaterThan(35 / 10)
+  })
+
+  test('ignores the partial current day in the weighted model', () => {
+    const dailyUsage = [6, 6, 6, 6, 6, 6, 6, 6, 6, 100]
+    const forecast = computeForecast(
+      makeUsageData({ totalUsage: 154, dailyUsage }),
+      1000,
+    )
+    expect(forecast.rate).toBe(6)
+    expect(forecast.weighted).toBe(154 + 6 * 20)
+  })
+
+  test('projects the day the limit is hit at the current rate', () => {
+    // 20/day, 100 left → 5 more days
+    const forecast = computeForecast(makeUsageData({ totalUsage: 200 }), 300)
+    expect(forecast.exhaustionDay).toBe(15)
+    expect(forecast.exhausted).toBe(false)
+  })
+
+  test('has no exhaustion day when the limit lasts the cycle', () => {
+    const forecast = computeForecast(makeUsageData({ totalUsage: 50 }), 300)
+    expect(forecast.exhaustionDay).toBeNull()
+  })
+
+  test('flags an already exhausted limit', () => {
+    const forecast = computeForecast(makeUsageData({ totalUsage: 320 }), 300)
+    expect(forecast.exhausted).toBe(true)
+    expect(forecast.exhaustionDay).toBeNull()
+    expect(forecast.dailyAllowance).toBe(0)
+  })
+
+  test('spreads the remaining requests over the days left, today included', () => {
+    // 21 days left including today, 210 requests remaining
+    const forecast = computeForecast(makeUsageData({ totalUsage: 90 }), 300)
+    expect(forecast.dailyAllowance).toBe(10)
+  })
+
+  test('handles zero usage', () => {
+    const forecast = computeForecast(makeUsageData(), 300)
+    expect(forecast.linear).toBe(0)
+    expect(forecast.exhaustionDay).toBeNull()
+    expect(forecast.dailyAllowance).toBe(14.29)
+  })
+})
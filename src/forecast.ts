@@ -0,0 +1,78 @@
+import type { UsageData } from './usage.ts'
+
+/** How many completed days feed the weighted recent-days model */
+const RECENT_DAYS = 7
+/** Weight decay per day of age in the recent-days model */
+const RECENT_DECAY = 0.7
+
+export type Forecast = {
+  /** End-of-cycle total extrapolated from the average daily rate */
+  linear: number
+  /** End-of-cycle total extrapolated from recent days, if daily data exists */
+  weighted: number | null
+  /** Daily rate used for the exhaustion projection */
+  rate: number
+  /** Day of the month the limit is hit at the current rate */
+  exhaustionDay: number | null
+  /** Whether the limit has already been reached */
+  exhausted: boolean
+  /** Requests per day left to stay within the limit until the reset */
+  dailyAllowance: number
+}
+
+export function computeForecast(data: UsageData, limit: number): Forecast {
+  const { totalUsage, currentDay, daysInMonth, dailyUsage } = data
+  const remainingDays = daysInMonth - currentDay
+
+  const linearRate = totalUsage / currentDay
+  const linear = linearRate * daysInMonth
+
+  const weightedRate = dailyUsage
+    ? getWeightedRate(dailyUsage.slice(0, currentDay - 1))
+    : null
+  const weighted =
+    weightedRate === null ? null : totalUsage + weightedRate * remainingDays
+
+  const rate = weightedRate ?? linearRate
+  const remaining = limit - totalUsage
+  const exhausted = remaining <= 0
+
+  let exhaustionDay: number | null = null
+  if (!exhausted && rate > 0) {
+    const day = Math.ceil(currentDay + remaining / rate)
+    if (day <= daysInMonth) exhaustionDay = day
+  }
+
+  const dailyAllowance = exhausted ? 0 : remaining / (remainingDays + 1)
+
+  return {
+    linear: round(linear),
+    weighted: weighted === null ? null : round(weighted),
+    rate: round(rate),
+    exhaustionDay,
+    exhausted,
+    dailyAllowance: round(dailyAllowance),
+  }
+}
+
+/**
+ * Exponentially weighted daily rate over the most recent completed days,
+ * so a burst of heavy sessions shows up before it dominates the average.
+ */
+function getWeightedRate(completedDays: number[]): number | null {
+  const recent = completedDays.slice(-RECENT_DAYS)
+  if (recent.length === 0) return null
+
+  let weightedSum = 0
+  let totalWeight = 0
+  recent.forEach((count, index) => {
+    const weight = RECENT_DECAY ** (recent.length - 1 - index)
+    weightedSum += count * weight
+    totalWeight += weight
+  })
+  return weightedSum / totalWeight
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
@@ -0,0 +1,209 @@
+import { afterEach, beforeEach, describe, expect, test } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import type { ShellExecOptions } from './config.ts'
+import {
+  HookError,
+  HookStateWriteError,
+  getCrossedLevels,
+  getHookStatePath,
+  readHookState,
+  runThresholdHooks,
+} from './hooks.ts'
+import { makeUsageData } from './test-utils.ts'
+import { usageReportSchema } from './usage.ts'
+
+const HOOKS = { '50': 'notify-send half', '90': 'notify-send almost' }
+
+/** ShellExec recording each command with its options */
+function recordingShellExec() {
+  const calls: { cmd: string; options?: ShellExecOptions }[] = []
+  const shellExec = async (cmd: string, options?: ShellExecOptions) => {
+    calls.push({ cmd, options })
+    return ''
+  }
+  return { shellExec, calls }
+}
+
+describe('getHookStatePath', () => {
+  test('lives under XDG_STATE_HOME when set', () => {
+    expect(getHookStatePath({ XDG_STATE_HOME: '/tmp/state' })).toBe(
+      '/tmp/state/gh-copilot-usage/hooks.json',
+    )
+  })
+
+  test('falls back to ~/.local/state', () => {
+    expect(getHookStatePath({})).toEndWith(
+      '/.local/state/gh-copilot-usage/hooks.json',
+    )
+  })
+})
+
+describe('getCrossedLevels', () => {
+  test('returns reached levels in ascending order', () => {
+    expect(getCrossedLevels([90, 50, 75], 80, '2025-06', undefined)).toEqual([
+      50, 75,
+    ])
+  })
+
+  test('skips levels already fired in the period', () => {
+    const previous = { period: '2025-06', fired: [50] }
+    expect(getCrossedLevels([50, 75], 80, '2025-06', previous)).toEqual([75])
+  })
+
+  test('forgets fired levels of previous periods', () => {
+    const previous = { period: '2025-05', fired: [50, 75] }
+    expect(getCrossedLevels([50, 75], 80, '2025-06', previous)).toEqual([
+      50, 75,
+    ])
+  })
+})
+
+describe('runThresholdHooks', () => {
+  let dir: string
+  let statePath: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'gh-copilot-usage-'))
+    statePath = join(dir, 'state', 'hooks.json')
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  test('runs the hooks of crossed levels through a shell', async () => {
+    const { shellExec, calls } = recordingShellExec()
+    const runs = await runThresholdHooks({
+      data: makeUsageData({ totalUsage: 160 }),
+      plan: 'pro',
+      limit: 300,
+      hooks: HOOKS,
+      statePath,
+      shellExec,
+    })
+    expect(runs).toEqual([{ level: 50, command: 'notify-send half' }])
+    expect(calls).toHaveLength(1)
+    expect(calls[0]!.cmd).toBe('notify-send half')
+    expect(calls[0]!.options?.shell).toBe(true)
+  })
+
+  test('passes the usage as environment variables and JSON on stdin', async () => {
+    const { shellExec, calls } = recordingShellExec()
+    await runThresholdHooks({
+      data: makeUsageData({ totalUsage: 160 }),
+      plan: 'pro',
+      limit: 300,
+      hooks: HOOKS,
+      statePath,
+      shellExec,
+    })
+    expect(calls[0]!.options?.env).toEqual({
+      COPILOT_USAGE_THRESHOLD: '50',
+      COPILOT_USAGE_TOTAL: '160',
+      COPILOT_USAGE_LIMIT: '300',
+      COPILOT_USAGE_PERCENTAGE: '53.3',
+      COPILOT_USAGE_PLAN: 'pro',
+      COPILOT_USAGE_PERIOD: '2025-06',
+      COPILOT_USAGE_SCOPE: 'user',
+      COPILOT_USAGE_NAME: 'octocat',
+    })
+    const report = usageReportSchema.parse(
+      JSON.parse(calls[0]!.options?.stdin ?? ''),
+    )
+    expect(report.totalUsage).toBe(160)
+  })
+
+  test('fires each level once per billing period', async () => {
+    const { shellExec, calls } = recordingShellExec()
+    const run = (totalUsage: number, month = '06') =>
+      runThresholdHooks({
+        data: makeUsageData({ totalUsage, month }),
+        plan: 'pro',
+        limit: 300,
+        hooks: HOOKS,
+        statePath,
+        shellExec,
+      })
+
+    await run(160)
+    await run(170)
+    await run(280)
+    await run(290)
+    expect(calls.map((call) => call.cmd)).toEqual([
+      'notify-send half',
+      'notify-send almost',
+    ])
+
+    await run(160, '07')
+    expect(calls).toHaveLength(3)
+    expect(await readHookState(statePath)).toEqual({
+      'user:octocat': { period: '2025-07', fired: [50] },
+    })
+  })
+
+  test('tracks scopes separately', async () => {
+    const { shellExec, calls } = recordingShellExec()
+    for (const scope of [
+      { type: 'user', username: 'octocat' },
+      { type: 'org', org: 'acme' },
+    ] as const) {
+      await runThresholdHooks({
+        data: makeUsageData({ scope, totalUsage: 160 }),
+        plan: 'pro',
+        limit: 300,
+        hooks: HOOKS,
+        statePath,
+        shellExec,
+      })
+    }
+    expect(calls).toHaveLength(2)
+  })
+
+  test('reports failing hooks, which still count as fired', async () => {
+    const shellExec = async () => { throw new Error('exit code 1') }
+    const options = {
+      data: makeUsageData({ totalUsage: 160 }),
+      plan: 'pro',
+      limit: 300,
+      hooks: HOOKS,
+      statePath,
+      shellExec,
+    }
+    const runs = await runThresholdHooks(options)
+    expect(runs).not.toBeInstanceOf(Error)
+    if (runs instanceof Error) return
+    expect(runs[0]?.error).toBeInstanceOf(HookError)
+    expect(await runThresholdHooks(options)).toEqual([])
+  })
+
+  test('does not run for closed periods', async () => {
+    const { shellExec, calls } = recordingShellExec()
+    const runs = await runThresholdHooks({
+      data: makeUsageData({ totalUsage: 290, closed: true }),
+      plan: 'pro',
+      limit: 300,
+      hooks: HOOKS,
+      statePath,
+      shellExec,
+    })
+    expect(runs).toEqual([])
+    expect(calls).toHaveLength(0)
+  })
+
+  test('returns HookStateWriteError when the state cannot be saved', async () => {
+    const { shellExec } = recordingShellExec()
+    const blocker = join(dir, 'file')
+    await Bun.write(blocker, '')
+    const runs = await runThresholdHooks({
+      data: makeUsageData({ totalUsage: 160 }),
+      plan: 'pro',
+      limit: 300,
+      hooks: HOOKS,
+      statePath: join(blocker, 'hooks.json'),
+      shellExec,
+    })
+    expect(runs).toBeInstanceOf(HookStateWriteError)
+  })
+})
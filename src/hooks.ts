@@ -0,0 +1,142 @@
+import * as errore from 'errore'
+import { homedir } from 'node:os'
+import { join } from 'node:path'
+import { z } from 'zod'
+import type { ShellExec } from './config.ts'
+import { type BillingScope, getScopeName } from './scope.ts'
+import { type UsageData, buildUsageReport, formatPeriod } from './usage.ts'
+
+export class HookError extends errore.createTaggedError({
+  name: 'HookError',
+  message: 'Hook for the $level% threshold failed: $command',
+}) {}
+
+export class HookStateWriteError extends errore.createTaggedError({
+  name: 'HookStateWriteError',
+  message: 'Failed to save hook state to "$path"',
+}) {}
+
+/** Thresholds already fired in the current billing period, per scope */
+const hookStateSchema = z.record(
+  z.string(),
+  z.object({ period: z.string(), fired: z.array(z.number()) }),
+)
+
+export type HookState = z.infer<typeof hookStateSchema>
+
+export type HookRun = {
+  level: number
+  command: string
+  error?: HookError
+}
+
+/** `$XDG_STATE_HOME/gh-copilot-usage/hooks.json`, defaulting to `~/.local/state` */
+export function getHookStatePath(env: NodeJS.ProcessEnv): string {
+  const base = env.XDG_STATE_HOME || join(homedir(), '.local', 'state')
+  return join(base, 'gh-copilot-usage', 'hooks.json')
+}
+
+/** A missing or unreadable state file starts over from an empty state */
+export async function readHookState(path: string): Promise<HookState> {
+  const raw: unknown = await Bun.file(path)
+    .json()
+    .catch(() => undefined)
+  const parsed = hookStateSchema.safeParse(raw)
+  return parsed.success ? parsed.data : {}
+}
+
+/**
+ * Threshold levels reached by `percentage` that have not fired yet in the
+ * period, in ascending order. Fired levels are forgotten when the period
+ * rolls over, so that each level fires once per billing cycle.
+ */
+export function getCrossedLevels(
+  levels: number[],
+  percentage: number,
+  period: string,
+  previous: HookState[string] | undefined,
+): number[] {
+  const fired = previous?.period === period ? previous.fired : []
+  return levels
+    .filter((level) => percentage >= level && !fired.includes(level))
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Run the `on_threshold` hooks of the levels crossed since the last run.
+ * Hooks get the usage as `COPILOT_USAGE_*` environment variables and the
+ * JSON report on stdin. A failing hook is reported but still counts as
+ * fired, so that a broken notifier doesn't run again on every invocation.
+ */
+export async function runThresholdHooks(options: {
+  data: UsageData
+  plan: string
+  limit: number
+  hooks: Record<string, string>
+  statePath: string
+  shellExec: ShellExec
+}): Promise<HookRun[] | HookStateWriteError> {
+  const { data, plan, limit, hooks, statePath, shellExec } = options
+  // Closed periods can no longer cross anything
+  if (data.closed) return []
+
+  const commands = new Map(
+    Object.entries(hooks).map(([level, command]) => [Number(level), command]),
+  )
+  const percentage = (data.totalUsage / limit) * 100
+  const period = formatPeriod({
+    year: data.year,
+    month: parseInt(data.month, 10),
+  })
+  const key = getScopeKey(data.scope)
+  const state = await readHookState(statePath)
+  const crossed = getCrossedLevels(
+    Array.from(commands.keys()),
+    percentage,
+    period,
+    state[key],
+  )
+  if (crossed.length === 0) return []
+
+  const report = JSON.stringify(buildUsageReport(data, plan, limit))
+  const runs: HookRun[] = []
+  for (const level of crossed) {
+    const command = commands.get(level)!
+    const env = {
+      COPILOT_USAGE_THRESHOLD: String(level),
+      COPILOT_USAGE_TOTAL: String(data.totalUsage),
+      COPILOT_USAGE_LIMIT: String(limit),
+      COPILOT_USAGE_PERCENTAGE: percentage.toFixed(1),
+      COPILOT_USAGE_PLAN: plan,
+      COPILOT_USAGE_PERIOD: period,
+      COPILOT_USAGE_SCOPE: data.scope.type,
+      COPILOT_USAGE_NAME: getScopeName(data.scope),
+    }
+    const result = await shellExec(command, {
+      shell: true,
+      env,
+      stdin: report,
+    }).catch((e: unknown) => new HookError({ level, command, cause: e }))
+    runs.push(
+      result instanceof HookError
+        ? { level, command, error: result }
+        : { level, command },
+    )
+  }
+
+  const fired = state[key]?.period === period ? state[key].fired : []
+  state[key] = { period, fired: [...fired, ...crossed] }
+  const written = await Bun.write(statePath, JSON.stringify(state)).catch(
+    (e: unknown) => new HookStateWriteError({ path: statePath, cause: e }),
+  )
+  if (written instanceof HookStateWriteError) return written
+  return runs
+}
+
+function getScopeKey(scope: BillingScope): string {
+  const key = `${scope.type}:${getScopeName(scope)}`
+  if (scope.type === 'enterprise' && scope.costCenter !== undefined) {
+    return `${key}:${scope.costCenter}`
+  }
+  return key
+}
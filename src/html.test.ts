@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test'
+import { renderHtml } from './html.ts'
+import { makeUsageData } from './test-utils.ts'
+
+describe('renderHtml', () => {
+  const data = makeUsageData({
+    totalUsage: 160,
+    modelCounts: new Map([
+      ['gpt-4o', 100],
+      ['claude-sonnet-4', 60],
+    ]),
+    dailyUsage: [10, 0, 20, 5, 15, 10, 10, 10, 20, 10, 10, 10, 10, 10, 10],
+  })
+
+  test('renders a self-contained report', () => {
+    expect(renderHtml(data, 'pro', 300)).toMatchSnapshot()
+  })
+
+  test('is deterministic', () => {
+    expect(renderHtml(data, 'pro', 300)).toBe(renderHtml(data, 'pro', 300))
+  })
+
+  test('has no external resources', () => {
+    const html = renderHtml(data, 'pro', 300)
+    expect(html).not.toMatch(/\b(src|href)=/)
+    expect(html).toContain('<style>')
+    expect(html).toContain('<svg')
+  })
+
+  test('plots a straight line to the total without daily usage', () => {
+    const html = renderHtml(
+      makeUsageData({ totalUsage: 150, modelCounts: new Map([['o3', 150]]) }),
+      'pro',
+      300,
+    )
+    expect(html).toMatch(/<polyline points="48,208 296,\d+(\.\d+)? ?"/)
+  })
+
+  test('bends the pace on the day of a plan change', () => {
+    const planSegments = [
+      { label: 'pro', allowance: 300, firstDay: 1, lastDay: 11 },
+      { label: 'pro+', allowance: 1500, firstDay: 12, lastDay: 30 },
+    ]
+    const html = renderHtml(data, 'pro+', 1060, { planSegments })
+    // 300 × 11 of the 1060 × 30 prorated requests by the 11th
+    expect(html).toContain(
+      '<polyline points="48,208 229.87,188.08 544,16" fill="none" stroke="#8c959f"',
+    )
+  })
+
+  test('groups the models past the palette in the donut', () => {
+    const modelCounts = new Map(
+      Array.from({ length: 9 }, (_, i) => [`model-${i}`, 10 - i] as const),
+    )
+    const html = renderHtml(
+      makeUsageData({ totalUsage: 54, modelCounts }),
+      'pro',
+      300,
+    )
+    expect(html).toContain('2 other models (9.3%)')
+  })
+
+  test('escapes model names', () => {
+    const html = renderHtml(
+      makeUsageData({
+        totalUsage: 1,
+        modelCounts: new Map([['<script>', 1]]),
+      }),
+      'pro',
+      300,
+    )
+    expect(html).not.toContain('<script>')
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  test('escapes the plan label', () => {
+    const html = renderHtml(data, 'Acme <Team>', 300)
+    expect(html).not.toContain('<Team>')
+    expect(html).toContain('<h1>GitHub Copilot Acme &lt;Team&gt; - ')
+  })
+})
@@ -0,0 +1,312 @@
+import {
+  type RenderOptions,
+  formatMoney,
+  formatPercentage,
+  formatPlanSegments,
+  formatScope,
+  getOverallColor,
+  getPaceProgress,
+  getUsageCost,
+  toTitleCase,
+} from './display.ts'
+import { computeForecast } from './forecast.ts'
+import { type PlanSegment, getAccruedFraction } from './prorate.ts'
+import { type UsageData, getCycleProgress } from './usage.ts'
+
+const STATUS_COLORS = {
+  green: '#1a7f37',
+  yellow: '#9a6700',
+  red: '#cf222e',
+} as const
+
+const MODEL_PALETTE = [
+  '#0969da',
+  '#8250df',
+  '#bf3989',
+  '#bc4c00',
+  '#1a7f37',
+  '#9a6700',
+  '#1b7c83',
+]
+/** Models past the palette are grouped in the donut */
+const OTHER_MODELS_COLOR = '#8c959f'
+
+const DONUT_RADIUS = 60
+const DONUT_STROKE = 24
+
+const CHART_WIDTH = 560
+const CHART_HEIGHT = 240
+const CHART_PADDING = { top: 16, right: 16, bottom: 32, left: 48 }
+
+const STYLES = `
+  :root { color-scheme: light; }
+  body { margin: 0; background: #f6f8fa; color: #1f2328; font: 14px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; }
+  main { max-width: 880px; margin: 0 auto; padding: 32px 24px; }
+  h1 { margin: 0; font-size: 24px; }
+  h2 { margin: 0 0 12px; font-size: 16px; }
+  .subtitle { margin: 4px 0 24px; color: #59636e; }
+  section { margin-bottom: 24px; padding: 20px; background: #fff; border: 1px solid #d1d9e0; border-radius: 8px; }
+  .stats { display: grid; grid-template-columns: repeat(auto-fit, minmax(160px, 1fr)); gap: 16px; }
+  .stat-label { color: #59636e; font-size: 12px; text-transform: uppercase; }
+  .stat-value { font-size: 22px; font-weight: 600; }
+  .stat-detail { color: #59636e; }
+  .charts { display: grid; grid-template-columns: 1fr 2fr; gap: 24px; align-items: start; }
+  svg text { fill: #59636e; font-size: 11px; }
+  .legend { margin: 12px 0 0; padding: 0; list-style: none; }
+  .swatch { display: inline-block; width: 10px; height: 10px; margin-right: 6px; border-radius: 2px; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 6px 8px; border-bottom: 1px solid #d1d9e0; text-align: left; }
+  td.number { text-align: right; font-variant-numeric: tabular-nums; }
+  .bar { height: 8px; background: #eff2f5; border-radius: 4px; overflow: hidden; }
+  .bar > div { height: 100%; }
+  @media (max-width: 640px) { .charts { grid-template-columns: 1fr; } }
+`
+
+/**
+ * Self-contained HTML report with inline CSS and SVG charts, to open
+ * offline or attach to an email. The output only depends on its inputs,
+ * so that it can be snapshot-tested.
+ */
+export function renderHtml(
+  data: UsageData,
+  plan: string,
+  limit: number,
+  {
+    dataAsOf,
+    overagePrice,
+    modelLimits,
+    planSegments,
+  }: Pick<
+    RenderOptions,
+    'dataAsOf' | 'overagePrice' | 'modelLimits' | 'planSegments'
+  > = {},
+): string {
+  const { year, monthName, totalUsage, currentDay, daysInMonth, closed } = data
+  const percentage = (totalUsage / limit) * 100
+  const monthProgress = getCycleProgress(data)
+  const color =
+    STATUS_COLORS[
+      getOverallColor(percentage, getPaceProgress(data, planSegments))
+    ]
+  // Custom plans have free-form labels
+  const title = `GitHub Copilot ${escapeHtml(toTitleCase(plan))} - Premium Requests Usage`
+
+  const stats: [string, string, string][] = [
+    [
+      'Used',
+      `<span style="color: ${color}">${Math.round(totalUsage)}</span>`,
+      `of ${limit} (${formatPercentage(percentage)})`,
+    ],
+    [
+      'Month',
+      `Day ${currentDay}`,
+      `of ${daysInMonth} (${formatPercentage(monthProgress * 100)})`,
+    ],
+  ]
+  const forecast = closed ? null : computeForecast(data, limit)
+  if (forecast) {
+    const projected = forecast.weighted ?? forecast.linear
+    stats.push(
+      [
+        'Forecast',
+        String(Math.round(projected)),
+        `by ${monthName} ${daysInMonth} (${formatPercentage((projected / limit) * 100)})`,
+      ],
+      [
+        'Budget',
+        forecast.exhausted
+          ? '0'
+          : String(Math.round(forecast.dailyAllowance * 10) / 10),
+        'requests/day to stay within the limit',
+      ],
+    )
+  }
+  const cost = getUsageCost(data, limit, overagePrice)
+  if (cost) {
+    stats.push([
+      'Billed',
+      formatMoney(cost.netAmount),
+      `${Math.round(cost.netQuantity)} overage requests${closed ? '' : ' so far'}`,
+    ])
+  }
+
+  const models = Array.from(data.modelCounts.entries())
+    .filter(([, count]) => count > 0)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+
+  const modelRows = models.map(([model, count], index) => {
+    const share = (count / (modelLimits?.[model] ?? limit)) * 100
+    return `<tr><td><span class="swatch" style="background: ${getModelColor(index)}"></span>${escapeHtml(model)}</td><td class="number">${Math.round(count)}</td><td class="number">${formatPercentage(share)}</td><td><div class="bar"><div style="width: ${formatNumber(Math.min(share, 100))}%; background: ${getModelColor(index)}"></div></div></td></tr>`
+  })
+
+  const subtitle = [`${monthName} ${year}`, escapeHtml(formatScope(data.scope))]
+  if (planSegments) subtitle.push(escapeHtml(formatPlanSegments(planSegments)))
+  if (dataAsOf) {
+    const stamp = dataAsOf.toISOString().slice(0, 16).replace('T', ' ')
+    subtitle.push(`Data as of ${stamp} UTC`)
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${title} - ${monthName} ${year}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<main>
+<h1>${title}</h1>
+<p class="subtitle">${subtitle.join(' • ')}</p>
+<section class="stats">
+${stats.map(([label, value, detail]) => `<div><div class="stat-label">${label}</div><div class="stat-value">${value}</div><div class="stat-detail">${detail}</div></div>`).join('\n')}
+</section>
+<section class="charts">
+<figure>
+<h2>Per-model share</h2>
+${drawDonut(models)}
+</figure>
+<figure>
+<h2>Usage vs. pacing</h2>
+${drawPacingChart(data, limit, color, planSegments)}
+</figure>
+</section>
+<section>
+<h2>Per-model usage</h2>
+${
+  models.length > 0
+    ? `<table>
+<thead><tr><th>Model</th><th>Requests</th><th>% of limit</th><th></th></tr></thead>
+<tbody>
+${modelRows.join('\n')}
+</tbody>
+</table>`
+    : '<p>No premium requests used yet.</p>'
+}
+</section>
+</main>
+</body>
+</html>
+`
+}
+
+function getModelColor(index: number): string {
+  return MODEL_PALETTE[index] ?? OTHER_MODELS_COLOR
+}
+
+/** Ring of per-model shares of the usage, with its legend */
+function drawDonut(models: [string, number][]): string {
+  const total = models.reduce((sum, [, count]) => sum + count, 0)
+  const size = (DONUT_RADIUS + DONUT_STROKE) * 2
+  const center = size / 2
+  const circumference = 2 * Math.PI * DONUT_RADIUS
+
+  const slices = models.slice(0, MODEL_PALETTE.length)
+  const others = models.slice(MODEL_PALETTE.length)
+  if (others.length > 0) {
+    slices.push([
+      `${others.length} other models`,
+      others.reduce((sum, [, count]) => sum + count, 0),
+    ])
+  }
+
+  let offset = 0
+  const segments = slices.map(([model, count], index) => {
+    const length = (count / total) * circumference
+    const segment = `<circle cx="${center}" cy="${center}" r="${DONUT_RADIUS}" fill="none" stroke="${getModelColor(index)}" stroke-width="${DONUT_STROKE}" stroke-dasharray="${formatNumber(length)} ${formatNumber(circumference - length)}" stroke-dashoffset="${formatNumber(-offset)}"><title>${escapeHtml(model)}: ${Math.round(count)}</title></circle>`
+    offset += length
+    return segment
+  })
+
+  const legend = slices.map(
+    ([model, count], index) =>
+      `<li><span class="swatch" style="background: ${getModelColor(index)}"></span>${escapeHtml(model)} (${formatPercentage((count / total) * 100)})</li>`,
+  )
+
+  return `<svg viewBox="0 0 ${size} ${size}" width="${size}" height="${size}" role="img" aria-label="Per-model share of premium requests">
+<circle cx="${center}" cy="${center}" r="${DONUT_RADIUS}" fill="none" stroke="#eff2f5" stroke-width="${DONUT_STROKE}"/>
+<g transform="rotate(-90 ${center} ${center})">
+${segments.join('\n')}
+</g>
+<text x="${center}" y="${center}" text-anchor="middle" dominant-baseline="middle" style="font-size: 20px; font-weight: 600; fill: #1f2328">${Math.round(total)}</text>
+</svg>
+<ul class="legend">
+${legend.join('\n')}
+</ul>`
+}
+
+/**
+ * Cumulative usage against the even pace that reaches the limit on the
+ * last day. Without daily usage, the cumulative line is a straight line
+ * to today's total. After a plan change, the pace bends on the day of the
+ * change, each plan accruing its own allowance.
+ */
+function drawPacingChart(
+  data: UsageData,
+  limit: number,
+  color: string,
+  planSegments?: PlanSegment[],
+): string {
+  const { daysInMonth, currentDay, totalUsage, dailyUsage } = data
+  const plotWidth = CHART_WIDTH - CHART_PADDING.left - CHART_PADDING.right
+  const plotHeight = CHART_HEIGHT - CHART_PADDING.top - CHART_PADDING.bottom
+
+  const cumulative: [number, number][] = [[0, 0]]
+  if (dailyUsage) {
+    let sum = 0
+    dailyUsage.forEach((count, index) => {
+      sum += count
+      cumulative.push([index + 1, sum])
+    })
+  } else {
+    cumulative.push([currentDay, totalUsage])
+  }
+
+  const maxValue = Math.max(limit, ...cumulative.map(([, value]) => value))
+  const x = (day: number) =>
+    formatNumber(CHART_PADDING.left + (day / daysInMonth) * plotWidth)
+  const y = (value: number) =>
+    formatNumber(
+      CHART_PADDING.top + plotHeight - (value / maxValue) * plotHeight,
+    )
+  const bottom = y(0)
+  const right = x(daysInMonth)
+
+  const usagePoints = cumulative
+    .map(([day, value]) => `${x(day)},${y(value)}`)
+    .join(' ')
+  const paceDays = planSegments
+    ? [0, ...planSegments.map(({ lastDay }) => lastDay)]
+    : [0, daysInMonth]
+  const pacePoints = paceDays
+    .map((day) => {
+      const fraction = planSegments
+        ? getAccruedFraction(planSegments, day)
+        : day / daysInMonth
+      return `${x(day)},${y(limit * fraction)}`
+    })
+    .join(' ')
+
+  return `<svg viewBox="0 0 ${CHART_WIDTH} ${CHART_HEIGHT}" width="100%" role="img" aria-label="Cumulative premium requests against an even pace">
+<line x1="${x(0)}" y1="${bottom}" x2="${right}" y2="${bottom}" stroke="#d1d9e0"/>
+<line x1="${x(0)}" y1="${y(limit)}" x2="${right}" y2="${y(limit)}" stroke="#d1d9e0" stroke-dasharray="2 2"/>
+<polyline points="${pacePoints}" fill="none" stroke="#8c959f" stroke-dasharray="6 4"><title>Even pace</title></polyline>
+<polyline points="${usagePoints}" fill="none" stroke="${color}" stroke-width="2.5" stroke-linejoin="round"><title>Premium requests used</title></polyline>
+<text x="${CHART_PADDING.left - 6}" y="${y(limit)}" text-anchor="end" dominant-baseline="middle">${limit}</text>
+<text x="${CHART_PADDING.left - 6}" y="${bottom}" text-anchor="end" dominant-baseline="middle">0</text>
+<text x="${x(1)}" y="${CHART_HEIGHT - 10}" text-anchor="middle">${data.monthName.slice(0, 3)} 1</text>
+<text x="${right}" y="${CHART_HEIGHT - 10}" text-anchor="middle">${daysInMonth}</text>
+</svg>`
+}
+
+function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100)
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;')
+}
@@ -1,26 +1,395 @@
 #!/usr/bin/env bun
 
 import { $ } from 'bun'
-import { parseCliArgs } from './cli.ts'
-import { resolveLimit, resolvePlan } from './config.ts'
-import { renderDisplay } from './display.ts'
-import { fetchUsage, fetchUsername } from './usage.ts'
+import { formatBadgeMessage, getBadgeColor, renderBadge } from './badge.ts'
+import { createCachedFetcher, getCacheDir } from './cache.ts'
+import {
+  CHECK_ERROR_EXIT_CODE,
+  CHECK_EXIT_CODES,
+  evaluateThresholds,
+  formatCheckSummary,
+  writeGithubFiles,
+} from './check.ts'
+import { type CliResult, getCommand, parseCliArgs } from './cli.ts'
+import {
+  type ConfigFile,
+  type ShellExecOptions,
+  DEFAULT_PLAN,
+  explainCacheTtl,
+  explainLimit,
+  explainPlan,
+  explainTimeZone,
+  formatResolution,
+  getConfigPath,
+  getConfigValue,
+  getAllowanceLimit,
+  getCustomPlan,
+  getModelLimits,
+  getPlanChangeSegments,
+  getPlanLabel,
+  getPlans,
+  listConfigValues,
+  readConfigFile,
+  resolveCacheTtl,
+  resolveLimit,
+  resolveLimitOverride,
+  resolvePlan,
+  resolveTimeZone,
+  setConfigValue,
+  unsetConfigValue,
+  writeConfigFile,
+} from './config.ts'
+import {
+  renderDisplay,
+  renderHistory,
+  renderLeaderboard,
+  renderLine,
+  renderMarkdown,
+} from './display.ts'
+import { PLAN_DETECTION_TTL, detectPlan } from './detect.ts'
+import { renderCsv, writeExport } from './export.ts'
+import { renderHtml } from './html.ts'
+import type { PlanSegment } from './prorate.ts'
+import type { BillingScope } from './scope.ts'
+import {
+  type FetchError,
+  type Fetcher,
+  type BillingPeriod,
+  type InvalidPeriodError,
+  type UsageData,
+  ParseError,
+  buildUsageReport,
+  fetchDailyModelUsage,
+  fetchDailyUsage,
+  fetchSeatCount,
+  fetchUsage,
+  fetchUsageHistory,
+  fetchUsername,
+  getCurrentPeriod,
+  shiftPeriod,
+} from './usage.ts'
+import { getHookStatePath, runThresholdHooks } from './hooks.ts'
+import {
+  type MetricsStore,
+  createMetricsHandler,
+  refreshMetrics,
+} from './metrics.ts'
+import { fetchMemberUsage, fetchOrgMembers, readRoster } from './users.ts'
+import { systemClock, watchUsage } from './watch.ts'
 
-async function shellExec(cmd: string): Promise<string> {
-  const [bin, ...args] = cmd.split(' ')
-  return $`${[bin, ...args]}`.text()
+async function shellExec(
+  cmd: string,
+  { shell = false, env, stdin }: ShellExecOptions = {},
+): Promise<string> {
+  const args = shell ? ['sh', '-c', cmd] : cmd.split(' ')
+  return $`${args} < ${new Response(stdin ?? '')}`
+    .env({ ...process.env, ...env })
+    .text()
 }
 
 async function fetcher(path: string): Promise<unknown> {
   return $`gh api ${path}`.json()
 }
 
+function printWarning(message: string) {
+  console.error(`Warning: ${message}`)
+}
+
+async function resolveScope(
+  options: {
+    org?: string
+    enterprise?: string
+    costCenter?: string
+  },
+  fetcher: Fetcher,
+): Promise<BillingScope | FetchError | ParseError> {
+  const { org, enterprise, costCenter } = options
+  if (enterprise !== undefined) {
+    return { type: 'enterprise', enterprise, costCenter }
+  }
+  if (org !== undefined) {
+    return { type: 'org', org }
+  }
+  const username = await fetchUsername(fetcher)
+  if (username instanceof Error) return username
+  return { type: 'user', username }
+}
+
+/** Hook failures are reported, but never fail the command itself */
+async function fireThresholdHooks(
+  config: ConfigFile,
+  data: UsageData,
+  plan: string,
+  limit: number,
+  warn = printWarning,
+) {
+  if (config.on_threshold === undefined) return
+  const runs = await runThresholdHooks({
+    data,
+    plan,
+    limit,
+    hooks: config.on_threshold,
+    statePath: getHookStatePath(process.env),
+    shellExec,
+  })
+  if (runs instanceof Error) {
+    warn(runs.message)
+    return
+  }
+  for (const run of runs) {
+    if (run.error) warn(run.error.message)
+  }
+}
+
+/**
+ * Plan of `scope` detected from the API. Only reached without a configured
+ * plan, so a response that no longer parses falls back to the default plan,
+ * reported to `warn` rather than as a failure of the report.
+ */
+async function detectScopePlan(
+  scope: BillingScope,
+  planFetcher: Fetcher,
+  warn: (message: string) => void,
+): Promise<string | undefined | FetchError | ParseError> {
+  const detected = await detectPlan(scope, planFetcher)
+  if (detected instanceof ParseError) {
+    warn(
+      `${detected.message}. Using the default plan "${DEFAULT_PLAN}", ` +
+        'set yours with --plan or `config set plan`',
+    )
+  }
+  return detected
+}
+
+/** What the limit of every billing period is resolved from */
+type LimitOptions = {
+  limitOverride: number | undefined
+  plan: string
+  planSince: string | undefined
+  seats: number
+  config: ConfigFile
+}
+
+/**
+ * Plan of `scope` and the options of its limits. Counting seats needs the
+ * manage_billing:copilot scope, so they are only fetched to multiply
+ * per-seat allowances. Sources with an invalid plan or limit are reported
+ * to `warn`.
+ */
+async function resolveLimitOptions(
+  options: { plan?: string; limit?: number; planSince?: string },
+  scope: BillingScope,
+  config: ConfigFile,
+  fetchers: { fetcher: Fetcher; planFetcher: Fetcher },
+  warn = printWarning,
+): Promise<LimitOptions | FetchError | ParseError> {
+  const plan = await resolvePlan(
+    options.plan,
+    process.env,
+    shellExec,
+    config,
+    () => detectScopePlan(scope, fetchers.planFetcher, warn),
+    warn,
+  )
+  const limitOverride = await resolveLimitOverride(
+    options.limit,
+    process.env,
+    shellExec,
+    config,
+    warn,
+  )
+  const seats =
+    limitOverride === undefined ||
+    getCustomPlan(config, plan)?.models !== undefined
+      ? await fetchSeatCount(scope, fetchers.fetcher)
+      : 1
+  if (seats instanceof Error) return seats
+  const planSince = options.planSince ?? config.plan_since
+  return { limitOverride, plan, planSince, seats, config }
+}
+
+/**
+ * Limit of `period`: the explicit `limitOverride`, or the allowance
+ * prorated between the plans of a month with a plan change on `planSince`.
+ * Segments are only kept when they set the limit.
+ */
+function resolvePeriodLimit(
+  options: LimitOptions,
+  period: BillingPeriod,
+): { limit: number; planSegments?: PlanSegment[] } {
+  const { limitOverride, plan, planSince, seats, config } = options
+  if (limitOverride !== undefined) return { limit: limitOverride }
+  const segments =
+    planSince === undefined
+      ? undefined
+      : getPlanChangeSegments(config, plan, planSince, period, seats)
+  return {
+    limit: getAllowanceLimit(plan, seats, config, segments),
+    // Only a month split between plans is prorated
+    planSegments: segments && segments.length > 1 ? segments : undefined,
+  }
+}
+
+/** Usage of the exported periods, with their per-day breakdown if `daily` */
+async function fetchExportHistory(
+  scope: BillingScope,
+  now: Date,
+  months: number,
+  daily: boolean,
+  fetcher: Fetcher,
+  period?: BillingPeriod,
+): Promise<UsageData[] | FetchError | ParseError | InvalidPeriodError> {
+  const history = await fetchUsageHistory(scope, now, months, fetcher, period)
+  if (history instanceof Error || !daily) return history
+  for (const data of history) {
+    const dailyModels = await fetchDailyModelUsage(scope, now, fetcher, {
+      year: data.year,
+      month: parseInt(data.month, 10),
+    })
+    if (dailyModels instanceof Error) return dailyModels
+    data.dailyModels = dailyModels
+  }
+  return history
+}
+
+/** Exit code of the config command, `get` of an unset key exits with 1 */
+async function runConfigCommand(
+  command: Extract<CliResult, { action: 'config' }>,
+  path: string,
+  config: ConfigFile | Error,
+): Promise<number> {
+  if (command.operation === 'path') {
+    console.log(path)
+    return 0
+  }
+
+  if (config instanceof Error) {
+    console.error(`Error: ${config.message}`)
+    return 1
+  }
+
+  switch (command.operation) {
+    case 'list':
+      for (const [key, value] of listConfigValues(config)) {
+        console.log(`${key}=${value}`)
+      }
+      return 0
+    case 'get': {
+      const value = getConfigValue(config, command.key)
+      if (value instanceof Error) {
+        console.error(`Error: ${value.message}`)
+        return 1
+      }
+      if (value === undefined) return 1
+      console.log(value)
+      return 0
+    }
+    case 'set':
+    case 'unset': {
+      const updated =
+        command.operation === 'set'
+          ? setConfigValue(config, command.key, command.value)
+          : unsetConfigValue(config, command.key)
+      if (updated instanceof Error) {
+        console.error(`Error: ${updated.message}`)
+        return 1
+      }
+      const written = await writeConfigFile(path, updated)
+      if (written instanceof Error) {
+        console.error(`Error: ${written.message}`)
+        return 1
+      }
+      return 0
+    }
+    case 'explain':
+      return explainSettings(command, config)
+  }
+}
+
+/** Each setting with the sources it is resolved from, by priority */
+async function explainSettings(
+  command: Extract<CliResult, { operation: 'explain' }>,
+  config: ConfigFile,
+): Promise<number> {
+  const dir = getCacheDir(process.env)
+  const ttl = resolveCacheTtl(process.env, config)
+  const cachedFetcher = createCachedFetcher(fetcher, {
+    dir,
+    ttl,
+    mode: command.cache,
+  }).fetcher
+  const planFetcher = createCachedFetcher(fetcher, {
+    dir,
+    ttl: PLAN_DETECTION_TTL,
+    mode: command.cache,
+  }).fetcher
+
+  // Offline or without a valid token, the sources read from the API are
+  // reported unavailable, the other sources are still explained. Only the
+  // username of a user scope is fetched, which has a single seat.
+  const scope = await resolveScope(command, cachedFetcher)
+  let seats =
+    scope instanceof Error ? 1 : await fetchSeatCount(scope, cachedFetcher)
+  if (seats instanceof Error) {
+    console.error(
+      `Warning: ${seats.message}, showing the allowance of one seat`,
+    )
+    seats = 1
+  }
+
+  const plan = await explainPlan(
+    command.plan,
+    process.env,
+    shellExec,
+    config,
+    async () =>
+      scope instanceof Error ? scope : detectPlan(scope, planFetcher),
+  )
+  const planSince = command.planSince ?? config.plan_since
+  const limit = await explainLimit(
+    command.limit,
+    plan.value,
+    process.env,
+    shellExec,
+    seats,
+    config,
+    planSince === undefined
+      ? undefined
+      : getPlanChangeSegments(
+          config,
+          plan.value,
+          planSince,
+          getCurrentPeriod(new Date()),
+          seats,
+        ),
+  )
+  const cacheTtl = await explainCacheTtl(process.env, config)
+  const timeZone = await explainTimeZone(config)
+  console.log(
+    [
+      formatResolution('plan', plan),
+      formatResolution('limit', limit),
+      formatResolution('cache TTL', cacheTtl),
+      formatResolution('time zone', timeZone),
+    ].join('\n\n'),
+  )
+  return 0
+}
+
 async function main() {
-  const cliResult = parseCliArgs(Bun.argv)
+  const configPath = getConfigPath(process.env)
+  const config = await readConfigFile(configPath)
+  // Custom plans are valid --plan values, unless the config file is invalid
+  const cliResult = parseCliArgs(
+    Bun.argv,
+    getPlans(config instanceof Error ? {} : config),
+  )
 
   if (cliResult instanceof Error) {
     console.error(`Error: ${cliResult.message}`)
-    process.exit(1)
+    // Usage errors of check must not be mistaken for its warn status
+    const isCheck = getCommand(Bun.argv) === 'check'
+    process.exit(isCheck ? CHECK_ERROR_EXIT_CODE : 1)
   }
 
   if (cliResult.action === 'help') {
@@ -33,30 +402,441 @@ async function main() {
     process.exit(0)
   }
 
-  const plan = await resolvePlan(cliResult.plan, process.env, shellExec)
-  const limit = await resolveLimit(
-    cliResult.limit,
-    plan,
-    process.env,
-    shellExec,
+  // The config command reports an invalid file itself, except for `path`
+  if (cliResult.action === 'config') {
+    process.exit(await runConfigCommand(cliResult, configPath, config))
+  }
+
+  // Errors of check must not be mistaken for its warn status
+  const errorExitCode = cliResult.action === 'check' ? CHECK_ERROR_EXIT_CODE : 1
+
+  if (config instanceof Error) {
+    console.error(`Error: ${config.message}`)
+    process.exit(errorExitCode)
+  }
+
+  const now = new Date()
+  // The exporter always reports on the current period
+  const rawPeriod = cliResult.action === 'serve' ? undefined : cliResult.period
+  const period =
+    rawPeriod === 'previous'
+      ? shiftPeriod(getCurrentPeriod(now), -1)
+      : rawPeriod
+  const width = Math.min(80, process.stdout.columns ?? 80)
+
+  const cache = createCachedFetcher(fetcher, {
+    dir: getCacheDir(process.env),
+    ttl: resolveCacheTtl(process.env, config, printWarning),
+    // Every refresh of the live display or exporter must hit the API
+    mode:
+      cliResult.action === 'serve' ||
+      (cliResult.action === 'run' && cliResult.watch !== undefined)
+        ? 'refresh'
+        : cliResult.cache,
+  })
+  const cachedFetcher = cache.fetcher
+  // Plans change far less than usage, so their detection is cached longer
+  const planFetcher = createCachedFetcher(fetcher, {
+    dir: getCacheDir(process.env),
+    ttl: PLAN_DETECTION_TTL,
+    mode: cliResult.cache,
+  }).fetcher
+  // Only stamp offline reports, which may be arbitrarily old
+  const getDataAsOf = () =>
+    cliResult.cache === 'offline' ? cache.getDataAsOf() : undefined
+
+  if (cliResult.action === 'users') {
+    const logins = cliResult.roster
+      ? await readRoster(cliResult.roster)
+      : await fetchOrgMembers(cliResult.org, cachedFetcher)
+    if (logins instanceof Error) {
+      console.error(`Error: ${logins.message}`)
+      process.exit(1)
+    }
+
+    const plan = await resolvePlan(
+      cliResult.plan,
+      process.env,
+      shellExec,
+      config,
+      () =>
+        detectScopePlan(
+          { type: 'org', org: cliResult.org },
+          planFetcher,
+          printWarning,
+        ),
+      printWarning,
+    )
+    const allowance = await resolveLimit(
+      cliResult.limit,
+      plan,
+      process.env,
+      shellExec,
+      1,
+      config,
+      undefined,
+      printWarning,
+    )
+
+    const members = await fetchMemberUsage(
+      cliResult.org,
+      logins,
+      now,
+      cachedFetcher,
+      period,
+    )
+    if (members instanceof Error) {
+      console.error(`Error: ${members.message}`)
+      process.exit(1)
+    }
+    const output = renderLeaderboard(
+      members,
+      cliResult.org,
+      period ?? getCurrentPeriod(now),
+      getPlanLabel(config, plan),
+      allowance,
+      { width, dataAsOf: getDataAsOf() },
+    )
+    console.log(colorOutput(output, cliResult.color))
+    return
+  }
+
+  const scope = await resolveScope(cliResult, cachedFetcher)
+  if (scope instanceof Error) {
+    console.error(`Error: ${scope.message}`)
+    process.exit(errorExitCode)
+  }
+
+  const fetchers = { fetcher: cachedFetcher, planFetcher }
+  const limitOptions = await resolveLimitOptions(
+    cliResult,
+    scope,
+    config,
+    fetchers,
   )
+  if (limitOptions instanceof Error) {
+    console.error(`Error: ${limitOptions.message}`)
+    process.exit(errorExitCode)
+  }
+  const { plan, seats } = limitOptions
+  const { limit, planSegments } = resolvePeriodLimit(
+    limitOptions,
+    period ?? getCurrentPeriod(now),
+  )
+  // A plan change gives each month of a history its own limit
+  const getMonthLimits = (history: UsageData[]) =>
+    history.map((data) => {
+      const month = { year: data.year, month: parseInt(data.month, 10) }
+      return resolvePeriodLimit(limitOptions, month).limit
+    })
+  // Cycles are computed in UTC, the reset is also shown in this time zone
+  const timeZone = await resolveTimeZone(config)
+  // Reports show the label of custom plans, machine outputs keep their key
+  const planLabel = getPlanLabel(config, plan)
+  const planOptions = {
+    overagePrice: getCustomPlan(config, plan)?.overage_price,
+    modelLimits: getModelLimits(config, plan, seats),
+    planSegments,
+  }
 
-  const username = await fetchUsername(fetcher)
-  if (username instanceof Error) {
-    console.error(`Error: ${username.message}`)
-    process.exit(1)
+  if (cliResult.action === 'history') {
+    const history = await fetchUsageHistory(
+      scope,
+      now,
+      cliResult.months,
+      cachedFetcher,
+      period,
+    )
+    if (history instanceof Error) {
+      console.error(`Error: ${history.message}`)
+      process.exit(1)
+    }
+    const limits = getMonthLimits(history)
+    const output = renderHistory(history, planLabel, limits, {
+      width,
+      dataAsOf: getDataAsOf(),
+    })
+    console.log(colorOutput(output, cliResult.color))
+    return
   }
 
-  const usage = await fetchUsage(username, new Date(), fetcher)
+  if (cliResult.action === 'export') {
+    const history = await fetchExportHistory(
+      scope,
+      now,
+      cliResult.months,
+      cliResult.daily,
+      cachedFetcher,
+      period,
+    )
+    if (history instanceof Error) {
+      console.error(`Error: ${history.message}`)
+      process.exit(1)
+    }
+    const csv = renderCsv(history, getMonthLimits(history))
+    if (cliResult.out === undefined) {
+      process.stdout.write(csv)
+      return
+    }
+    const written = await writeExport(cliResult.out, csv)
+    if (written instanceof Error) {
+      console.error(`Error: ${written.message}`)
+      process.exit(1)
+    }
+    const first = history[0]!
+    const last = history[history.length - 1]!
+    const range =
+      history.length > 1
+        ? `${first.year}-${first.month} to ${last.year}-${last.month}`
+        : `${last.year}-${last.month}`
+    console.log(`Exported usage of ${range} to ${cliResult.out}`)
+    return
+  }
+
+  if (cliResult.action === 'serve') {
+    const controller = new AbortController()
+    process.once('SIGINT', () => controller.abort())
+    process.once('SIGTERM', () => controller.abort())
+    const store: MetricsStore = {
+      period: getCurrentPeriod(now),
+      plan,
+      limit,
+      errors: 0,
+    }
+    const server = Bun.serve({
+      port: cliResult.port,
+      fetch: createMetricsHandler(store),
+    })
+    console.log(`Serving metrics at ${new URL('/metrics', server.url)}`)
+    await refreshMetrics({
+      store,
+      scope,
+      fetcher: cachedFetcher,
+      clock: systemClock,
+      interval: cliResult.interval,
+      signal: controller.signal,
+      onError: (error) =>
+        console.error(`${new Date().toISOString()} Error: ${error.message}`),
+      onRefresh: (data) =>
+        fireThresholdHooks(config, data, store.plan, store.limit),
+      // The plan may have changed when a new billing cycle starts
+      resolvePeriod: async (period) => {
+        const options = await resolveLimitOptions(
+          cliResult,
+          scope,
+          config,
+          fetchers,
+        )
+        if (options instanceof Error) return options
+        return {
+          plan: options.plan,
+          limit: resolvePeriodLimit(options, period).limit,
+        }
+      },
+    })
+    await server.stop()
+    return
+  }
+
+  if (cliResult.action === 'check') {
+    const usage = await fetchUsage(scope, now, cachedFetcher, period)
+    if (usage instanceof Error) {
+      console.error(`Error: ${usage.message}`)
+      process.exit(CHECK_ERROR_EXIT_CODE)
+    }
+    await fireThresholdHooks(config, usage, plan, limit)
+    const result = evaluateThresholds(usage, limit, cliResult, planSegments)
+    console.log(formatCheckSummary(result))
+    const written = await writeGithubFiles(result, cliResult, process.env)
+    if (written instanceof Error) {
+      console.error(`Error: ${written.message}`)
+      process.exit(CHECK_ERROR_EXIT_CODE)
+    }
+    process.exit(CHECK_EXIT_CODES[result.status])
+  }
+
+  if (cliResult.action === 'badge') {
+    const usage = await fetchUsage(scope, now, cachedFetcher, period)
+    if (usage instanceof Error) {
+      console.error(`Error: ${usage.message}`)
+      process.exit(1)
+    }
+    await fireThresholdHooks(config, usage, plan, limit)
+    const svg = renderBadge({
+      label: cliResult.label,
+      message: formatBadgeMessage(usage, limit, cliResult.metric),
+      color: getBadgeColor(usage, limit, planOptions.planSegments),
+      style: cliResult.style,
+    })
+    if (cliResult.out === undefined) {
+      process.stdout.write(svg)
+      return
+    }
+    const written = await writeExport(cliResult.out, svg)
+    if (written instanceof Error) {
+      console.error(`Error: ${written.message}`)
+      process.exit(1)
+    }
+    console.log(`Wrote the badge to ${cliResult.out}`)
+    return
+  }
+
+  if (cliResult.watch !== undefined) {
+    const controller = new AbortController()
+    process.once('SIGINT', () => controller.abort())
+    process.once('SIGTERM', () => controller.abort())
+    // Resolved along with the limits of each refresh, shown in its frame
+    let settingWarnings: string[] = []
+    await watchUsage({
+      scope,
+      period,
+      daily: cliResult.daily,
+      width,
+      timeZone,
+      interval: cliResult.watch,
+      color: cliResult.color ?? !process.env.NO_COLOR,
+      fetcher: cachedFetcher,
+      clock: systemClock,
+      signal: controller.signal,
+      write: (text) => process.stdout.write(text),
+      // A new cycle may start, or the plan be edited, while watching
+      resolveLimits: async (current) => {
+        settingWarnings = []
+        const latest = await readConfigFile(configPath)
+        if (latest instanceof Error) return latest
+        const options = await resolveLimitOptions(
+          cliResult,
+          scope,
+          latest,
+          fetchers,
+          (message) => settingWarnings.push(message),
+        )
+        if (options instanceof Error) return options
+        return {
+          plan: options.plan,
+          planLabel: getPlanLabel(latest, options.plan),
+          ...resolvePeriodLimit(options, current),
+          overagePrice: getCustomPlan(latest, options.plan)?.overage_price,
+          modelLimits: getModelLimits(latest, options.plan, options.seats),
+        }
+      },
+      onRefresh: async (data, limits) => {
+        const warnings = [...settingWarnings]
+        await fireThresholdHooks(
+          config,
+          data,
+          limits.plan,
+          limits.limit,
+          (message) => warnings.push(message),
+        )
+        return warnings
+      },
+    })
+    return
+  }
+
+  // Reports other than the terminal UI can be written to a file
+  const { out } = cliResult
+  const writeOutput = async (output: string) => {
+    if (out === undefined) {
+      process.stdout.write(output)
+      return
+    }
+    const written = await writeExport(out, output)
+    if (written instanceof Error) {
+      console.error(`Error: ${written.message}`)
+      process.exit(1)
+    }
+    console.log(`Wrote the ${cliResult.format} report to ${out}`)
+  }
+
+  if (cliResult.format === 'csv') {
+    const history = await fetchExportHistory(
+      scope,
+      now,
+      1,
+      cliResult.daily,
+      cachedFetcher,
+      period,
+    )
+    if (history instanceof Error) {
+      console.error(`Error: ${history.message}`)
+      process.exit(1)
+    }
+    await fireThresholdHooks(config, history[0]!, plan, limit)
+    await writeOutput(renderCsv(history, limit))
+    return
+  }
+
+  const [usage, daily] = await Promise.all([
+    fetchUsage(scope, now, cachedFetcher, period),
+    // The pacing chart of the HTML report plots the daily usage
+    cliResult.daily || cliResult.format === 'html'
+      ? fetchDailyUsage(scope, now, cachedFetcher, period)
+      : undefined,
+  ])
   if (usage instanceof Error) {
     console.error(`Error: ${usage.message}`)
     process.exit(1)
   }
+  if (daily instanceof Error) {
+    console.error(`Error: ${daily.message}`)
+    process.exit(1)
+  }
+  usage.dailyUsage = daily
+  await fireThresholdHooks(config, usage, plan, limit)
+
+  if (cliResult.format === 'json') {
+    const report = buildUsageReport(usage, plan, limit)
+    await writeOutput(JSON.stringify(report, null, 2) + '\n')
+    return
+  }
+
+  if (cliResult.format === 'markdown') {
+    await writeOutput(
+      renderMarkdown(usage, planLabel, limit, {
+        dataAsOf: getDataAsOf(),
+        timeZone,
+        ...planOptions,
+      }),
+    )
+    return
+  }
 
-  const output = renderDisplay(usage, plan, limit, {
-    width: Math.min(80, process.stdout.columns ?? 80),
+  if (cliResult.format === 'html') {
+    await writeOutput(
+      renderHtml(usage, planLabel, limit, {
+        dataAsOf: getDataAsOf(),
+        ...planOptions,
+      }),
+    )
+    return
+  }
+
+  if (cliResult.format === 'line') {
+    const output = renderLine(
+      usage,
+      planLabel,
+      limit,
+      cliResult.template,
+      planOptions,
+    )
+    await writeOutput(colorOutput(output, cliResult.color) + '\n')
+    return
+  }
+
+  const output = renderDisplay(usage, planLabel, limit, {
+    width,
+    dataAsOf: getDataAsOf(),
+    timeZone,
+    ...planOptions,
   })
-  console.log(output)
+  console.log(colorOutput(output, cliResult.color))
+}
+
+/** `output` without its colors when disabled, by --no-color or NO_COLOR */
+function colorOutput(output: string, color: boolean | undefined): string {
+  return (color ?? !process.env.NO_COLOR) ? output : Bun.stripANSI(output)
 }
 
 main()
@@ -0,0 +1,241 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  type MetricsStore,
+  createMetricsHandler,
+  refreshMetrics,
+  renderMetrics,
+} from './metrics.ts'
+import type { BillingScope } from './scope.ts'
+import { FIXED_DATE, makeUsageData } from './test-utils.ts'
+import type { UsageData } from './usage.ts'
+import type { Clock } from './watch.ts'
+
+const OCTOCAT: BillingScope = { type: 'user', username: 'octocat' }
+
+const JUNE = { year: 2025, month: 6 }
+
+function makeStore(overrides: Partial<UsageData> = {}): MetricsStore {
+  return {
+    data: makeUsageData(overrides),
+    period: JUNE,
+    plan: 'pro',
+    limit: 300,
+    refreshedAt: FIXED_DATE,
+    errors: 0,
+  }
+}
+
+describe('renderMetrics', () => {
+  test('exposes usage gauges labelled by scope and plan', () => {
+    const output = renderMetrics(
+      makeStore({
+        totalUsage: 150,
+        modelCounts: new Map([
+          ['gpt-4o', 100],
+          ['claude-sonnet-4', 50],
+        ]),
+      }),
+    )
+    expect(output).toMatchSnapshot()
+  })
+
+  test('declares the type of every metric', () => {
+    const output = renderMetrics(makeStore())
+    expect(output).toContain('# TYPE copilot_premium_requests gauge')
+    expect(output).toContain(
+      '# TYPE copilot_usage_refresh_errors_total counter',
+    )
+    expect(output).toEndWith('\n')
+  })
+
+  test('labels organization and cost center scopes', () => {
+    const org = renderMetrics({
+      ...makeStore({ scope: { type: 'org', org: 'acme' }, totalUsage: 12 }),
+      plan: 'business',
+      limit: 3000,
+    })
+    expect(org).toContain(
+      'copilot_premium_requests{org="acme",plan="business"} 12',
+    )
+
+    const costCenter = renderMetrics({
+      ...makeStore({
+        scope: {
+          type: 'enterprise',
+          enterprise: 'megacorp',
+          costCenter: 'cc',
+        },
+      }),
+      plan: 'enterprise',
+      limit: 1000,
+    })
+    expect(costCenter).toContain(
+      'copilot_premium_requests_limit{enterprise="megacorp",cost_center="cc",plan="enterprise"} 1000',
+    )
+  })
+
+  test('escapes label values', () => {
+    const output = renderMetrics(
+      makeStore({ modelCounts: new Map([['odd "model"\\name', 1]]) }),
+    )
+    expect(output).toContain('model="odd \\"model\\"\\\\name"')
+  })
+
+  test('only exposes the error count before the first refresh', () => {
+    const output = renderMetrics({
+      period: JUNE,
+      plan: 'pro',
+      limit: 300,
+      errors: 2,
+    })
+    expect(output).not.toContain('copilot_premium_requests')
+    expect(output).toContain('copilot_usage_refresh_errors_total 2')
+  })
+})
+
+describe('createMetricsHandler', () => {
+  test('serves metrics at /metrics', async () => {
+    const handler = createMetricsHandler(makeStore({ totalUsage: 42 }))
+    const response = handler(new Request('http://localhost/metrics'))
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Content-Type')).toStartWith('text/plain')
+    expect(await response.text()).toContain(
+      'copilot_premium_requests{user="octocat",plan="pro"} 42',
+    )
+  })
+
+  test('is unavailable until usage has been fetched', () => {
+    const handler = createMetricsHandler({
+      period: JUNE,
+      plan: 'pro',
+      limit: 300,
+      errors: 0,
+    })
+    const response = handler(new Request('http://localhost/metrics'))
+    expect(response.status).toBe(503)
+  })
+
+  test('returns 404 for other paths', () => {
+    const handler = createMetricsHandler(makeStore())
+    const response = handler(new Request('http://localhost/'))
+    expect(response.status).toBe(404)
+  })
+})
+
+describe('refreshMetrics', () => {
+  test('refreshes the store on every interval, not per scrape', async () => {
+    const controller = new AbortController()
+    let time = FIXED_DATE.getTime()
+    const sleeps: number[] = []
+    const clock: Clock = {
+      now: () => new Date(time),
+      sleep: async (ms) => {
+        sleeps.push(ms)
+        time += ms
+        if (sleeps.length === 3) controller.abort()
+      },
+    }
+    let call = 0
+    const fetcher = async () => {
+      call++
+      if (call === 2) throw new Error('network error')
+      return { usageItems: [{ model: 'gpt-4o', grossQuantity: call * 10 }] }
+    }
+    const store: MetricsStore = {
+      period: JUNE,
+      plan: 'pro',
+      limit: 300,
+      errors: 0,
+    }
+    const errors: string[] = []
+
+    await refreshMetrics({
+      store,
+      scope: OCTOCAT,
+      fetcher,
+      clock,
+      interval: 300,
+      signal: controller.signal,
+      onError: (error) => errors.push(error.message),
+    })
+
+    expect(sleeps).toEqual([300_000, 300_000, 300_000])
+    expect(store.data?.totalUsage).toBe(30)
+    expect(store.refreshedAt).toEqual(
+      new Date(FIXED_DATE.getTime() + 600_000),
+    )
+    expect(store.errors).toBe(1)
+    expect(errors).toEqual(['Failed to fetch data: network error'])
+  })
+  test('resolves the plan and limit of a new period', async () => {
+    const controller = new AbortController()
+    const clock: Clock = {
+      now: () => FIXED_DATE,
+      sleep: async () => controller.abort(),
+    }
+    const fetcher = async () => ({
+      usageItems: [{ model: 'gpt-4o', grossQuantity: 10 }],
+    })
+    const store: MetricsStore = {
+      period: { year: 2025, month: 5 },
+      plan: 'pro',
+      limit: 300,
+      errors: 0,
+    }
+    const periods: string[] = []
+
+    await refreshMetrics({
+      store,
+      scope: OCTOCAT,
+      fetcher,
+      clock,
+      interval: 300,
+      signal: controller.signal,
+      onError: () => {},
+      resolvePeriod: async ({ year, month }) => {
+        periods.push(`${year}-${month}`)
+        return { plan: 'pro+', limit: 1500 }
+      },
+    })
+
+    expect(periods).toEqual(['2025-6'])
+    expect(store).toMatchObject({
+      period: JUNE,
+      plan: 'pro+',
+      limit: 1500,
+      data: { totalUsage: 10 },
+    })
+  })
+
+  test('keeps serving the previous period until it is resolved', async () => {
+    const controller = new AbortController()
+    const clock: Clock = {
+      now: () => FIXED_DATE,
+      sleep: async () => controller.abort(),
+    }
+    const fetcher = async () => ({
+      usageItems: [{ model: 'gpt-4o', grossQuantity: 10 }],
+    })
+    const store: MetricsStore = {
+      period: { year: 2025, month: 5 },
+      plan: 'pro',
+      limit: 300,
+      errors: 0,
+    }
+
+    await refreshMetrics({
+      store,
+      scope: OCTOCAT,
+      fetcher,
+      clock,
+      interval: 300,
+      signal: controller.signal,
+      onError: () => {},
+      resolvePeriod: async () => new Error('seats unavailable'),
+    })
+
+    expect(store.data).toBeUndefined()
+    expect(store.plan).toBe('pro')
+    expect(store.errors).toBe(1)
+  })
+})
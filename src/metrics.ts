@@ -0,0 +1,202 @@
+import type { BillingScope } from './scope.ts'
+import {
+  type BillingPeriod,
+  type Fetcher,
+  type UsageData,
+  fetchUsage,
+  formatPeriod,
+  getCycleProgress,
+} from './usage.ts'
+import type { Clock } from './watch.ts'
+
+/** Latest usage served on every scrape, updated by the refresh loop */
+export type MetricsStore = {
+  data?: UsageData
+  /** Billing period the plan and limit are resolved for */
+  period: BillingPeriod
+  plan: string
+  limit: number
+  refreshedAt?: Date
+  /** Number of failed refreshes since startup */
+  errors: number
+}
+
+type Sample = { labels: Record<string, string>; value: number }
+
+type Metric = {
+  name: string
+  help: string
+  type: 'gauge' | 'counter'
+  samples: Sample[]
+}
+
+/**
+ * Render the store in the Prometheus text exposition format. Every usage
+ * gauge is labelled with the plan and the scope (`user`, `org` or
+ * `enterprise`, plus `cost_center`), per-model counts also with the model.
+ */
+export function renderMetrics(store: MetricsStore): string {
+  const metrics: Metric[] = []
+  const { data, plan, limit } = store
+  if (data) {
+    const labels = { ...getScopeLabels(data.scope), plan }
+    const gauge = (name: string, help: string, value: number) =>
+      metrics.push({ name, help, type: 'gauge', samples: [{ labels, value }] })
+
+    gauge(
+      'copilot_premium_requests',
+      'Premium requests used in the current billing cycle',
+      data.totalUsage,
+    )
+    gauge(
+      'copilot_premium_requests_limit',
+      'Premium requests included in the billing cycle',
+      limit,
+    )
+    gauge(
+      'copilot_premium_requests_percentage',
+      'Premium requests used, as a percentage of the limit',
+      (data.totalUsage / limit) * 100,
+    )
+    gauge(
+      'copilot_billing_cycle_progress_ratio',
+      'Elapsed fraction of the billing cycle',
+      getCycleProgress(data),
+    )
+    metrics.push({
+      name: 'copilot_model_premium_requests',
+      help: 'Premium requests used in the current billing cycle, per model',
+      type: 'gauge',
+      samples: Array.from(data.modelCounts.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([model, value]) => ({ labels: { ...labels, model }, value })),
+    })
+  }
+  if (store.refreshedAt) {
+    metrics.push({
+      name: 'copilot_usage_last_refresh_timestamp_seconds',
+      help: 'Time of the last successful refresh from the billing API',
+      type: 'gauge',
+      samples: [{ labels: {}, value: store.refreshedAt.getTime() / 1000 }],
+    })
+  }
+  metrics.push({
+    name: 'copilot_usage_refresh_errors_total',
+    help: 'Failed refreshes from the billing API',
+    type: 'counter',
+    samples: [{ labels: {}, value: store.errors }],
+  })
+
+  return metrics
+    .flatMap(({ name, help, type, samples }) => [
+      `# HELP ${name} ${help}`,
+      `# TYPE ${name} ${type}`,
+      ...samples.map(({ labels, value }) => formatSample(name, labels, value)),
+    ])
+    .concat('')
+    .join('\n')
+}
+
+/** Request handler of the exporter, scrapes never hit the billing API */
+export function createMetricsHandler(
+  store: MetricsStore,
+): (request: Request) => Response {
+  return (request) => {
+    const { pathname } = new URL(request.url)
+    if (pathname !== '/metrics') {
+      return new Response('Not found, metrics are served at /metrics\n', {
+        status: 404,
+      })
+    }
+    if (!store.data) {
+      return new Response('Usage has not been fetched yet\n', { status: 503 })
+    }
+    return new Response(renderMetrics(store), {
+      headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+    })
+  }
+}
+
+type RefreshOptions = {
+  store: MetricsStore
+  scope: BillingScope
+  fetcher: Fetcher
+  clock: Clock
+  interval: number
+  signal: AbortSignal
+  onError: (error: Error) => void
+  onRefresh?: (data: UsageData) => Promise<void>
+  /** Plan and limit of a new billing period */
+  resolvePeriod?: (
+    period: BillingPeriod,
+  ) => Promise<{ plan: string; limit: number } | Error>
+}
+
+/**
+ * Refresh the store from the billing API every `interval` seconds until
+ * `signal` aborts. A failed refresh keeps serving the previous usage.
+ */
+export async function refreshMetrics(options: RefreshOptions): Promise<void> {
+  const { store, clock, signal } = options
+  while (!signal.aborted) {
+    const refreshed = await refreshStore(options, clock.now())
+    if (refreshed instanceof Error) {
+      store.errors++
+      options.onError(refreshed)
+    }
+    await clock.sleep(options.interval * 1000, signal)
+  }
+}
+
+/**
+ * The usage of a new billing period is only stored once its plan and limit
+ * are resolved, so that scrapes never mix up two periods
+ */
+async function refreshStore(
+  { store, scope, fetcher, onRefresh, resolvePeriod }: RefreshOptions,
+  now: Date,
+): Promise<void | Error> {
+  const data = await fetchUsage(scope, now, fetcher)
+  if (data instanceof Error) return data
+  const period = { year: data.year, month: parseInt(data.month, 10) }
+  if (resolvePeriod && formatPeriod(period) !== formatPeriod(store.period)) {
+    const resolved = await resolvePeriod(period)
+    if (resolved instanceof Error) return resolved
+    Object.assign(store, { period, ...resolved })
+  }
+  store.data = data
+  store.refreshedAt = now
+  await onRefresh?.(data)
+}
+
+function getScopeLabels(scope: BillingScope): Record<string, string> {
+  switch (scope.type) {
+    case 'user':
+      return { user: scope.username }
+    case 'org':
+      return { org: scope.org }
+    case 'enterprise':
+      return scope.costCenter === undefined
+        ? { enterprise: scope.enterprise }
+        : { enterprise: scope.enterprise, cost_center: scope.costCenter }
+  }
+}
+
+function formatSample(
+  name: string,
+  labels: Record<string, string>,
+  value: number,
+): string {
+  const pairs = Object.entries(labels).map(
+    ([key, label]) => `${key}="${escapeLabelValue(label)}"`,
+  )
+  const labelSet = pairs.length > 0 ? `{${pairs.join(',')}}` : ''
+  return `${name}${labelSet} ${value}`
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replaceAll('\\', '\\\\')
+    .replaceAll('"', '\\"')
+    .replaceAll('\n', '\\n')
+}
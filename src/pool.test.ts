@@ -0,0 +1,36 @@
+import { describe, expect, test } from 'bun:test'
+import { mapConcurrent } from './pool.ts'
+
+describe('mapConcurrent', () => {
+  test('preserves input order in results', async () => {
+    const result = await mapConcurrent([30, 10, 20], 3, async (ms) => {
+      await Bun.sleep(ms)
+      return ms * 2
+    })
+    expect(result).toEqual([60, 20, 40])
+  })
+
+  test('never exceeds the concurrency limit', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    await mapConcurrent([1, 2, 3, 4, 5, 6, 7], 2, async () => {
+      inFlight++
+      maxInFlight = Math.max(maxInFlight, inFlight)
+      await Bun.sleep(1)
+      inFlight--
+    })
+    expect(maxInFlight).toBe(2)
+  })
+
+  test('handles an empty list', async () => {
+    const result = await mapConcurrent([], 4, async () => 1)
+    expect(result).toEqual([])
+  })
+
+  test('passes the item index', async () => {
+    const result = await mapConcurrent(['a', 'b'], 1, async (item, index) => {
+      return `${index}:${item}`
+    })
+    expect(result).toEqual(['0:a', '1:b'])
+  })
+})
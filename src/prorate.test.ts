@@ -0,0 +1,86 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  type PlanSegment,
+  getAccruedFraction,
+  getPlanSegments,
+  getProratedAllowance,
+  isValidDate,
+} from './prorate.ts'
+
+const PRO = { label: 'pro', allowance: 300 }
+const PRO_PLUS = { label: 'pro+', allowance: 1500 }
+const JUNE = { year: 2025, month: 6 }
+
+const UPGRADE: PlanSegment[] = [
+  { ...PRO, firstDay: 1, lastDay: 11 },
+  { ...PRO_PLUS, firstDay: 12, lastDay: 30 },
+]
+
+describe('isValidDate', () => {
+  test('accepts calendar days', () => {
+    expect(isValidDate('2025-06-12')).toBe(true)
+    expect(isValidDate('2024-02-29')).toBe(true)
+  })
+
+  test('rejects other formats and days', () => {
+    for (const value of [
+      '2025-6-12',
+      '12-06-2025',
+      '2025-02-29',
+      '2025-13-01',
+    ]) {
+      expect(isValidDate(value)).toBe(false)
+    }
+  })
+})
+
+describe('getPlanSegments', () => {
+  test('splits the month on the day of the change', () => {
+    expect(getPlanSegments(JUNE, '2025-06-12', PRO, PRO_PLUS)).toEqual(UPGRADE)
+  })
+
+  test('covers the month with the new plan from its first day', () => {
+    expect(getPlanSegments(JUNE, '2025-06-01', PRO, PRO_PLUS)).toEqual([
+      { ...PRO_PLUS, firstDay: 1, lastDay: 30 },
+    ])
+    expect(getPlanSegments(JUNE, '2024-11-20', PRO, PRO_PLUS)).toEqual([
+      { ...PRO_PLUS, firstDay: 1, lastDay: 30 },
+    ])
+  })
+
+  test('keeps months before the change on the previous plan', () => {
+    expect(getPlanSegments(JUNE, '2025-07-12', PRO, PRO_PLUS)).toEqual([
+      { ...PRO, firstDay: 1, lastDay: 30 },
+    ])
+  })
+})
+
+describe('getProratedAllowance', () => {
+  test('weights each allowance by its days', () => {
+    // (300 × 11 + 1500 × 19) / 30
+    expect(getProratedAllowance(UPGRADE)).toBe(1060)
+  })
+
+  test('is the allowance of a single plan', () => {
+    expect(getProratedAllowance([{ ...PRO, firstDay: 1, lastDay: 30 }])).toBe(
+      300,
+    )
+  })
+})
+
+describe('getAccruedFraction', () => {
+  test('accrues the daily allowance of each plan', () => {
+    expect(getAccruedFraction(UPGRADE, 11)).toBeCloseTo(3300 / 31800)
+    expect(getAccruedFraction(UPGRADE, 15)).toBeCloseTo(9300 / 31800)
+    expect(getAccruedFraction(UPGRADE, 30)).toBe(1)
+  })
+
+  test('accrues part of a day', () => {
+    expect(getAccruedFraction(UPGRADE, 11.5)).toBeCloseTo(4050 / 31800)
+  })
+
+  test('follows the calendar with a single plan', () => {
+    const segments = [{ ...PRO, firstDay: 1, lastDay: 30 }]
+    expect(getAccruedFraction(segments, 15)).toBe(0.5)
+  })
+})
@@ -0,0 +1,84 @@
+import { type BillingPeriod, getDaysInPeriod } from './usage.ts'
+
+/** Days of a billing month spent on one plan */
+export type PlanSegment = {
+  /** Name of the plan in report headers */
+  label: string
+  /** Monthly allowance of the plan, for every seat */
+  allowance: number
+  /** First and last days of the month on the plan, inclusive */
+  firstDay: number
+  lastDay: number
+}
+
+/** A `YYYY-MM-DD` day of the calendar */
+export function isValidDate(value: string): boolean {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(value)
+  if (!match) return false
+  const [year, month, day] = match.slice(1).map(Number) as [
+    number,
+    number,
+    number,
+  ]
+  const date = new Date(Date.UTC(year, month - 1, day))
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+}
+
+/**
+ * Split `period` at a plan change on `since`, a `YYYY-MM-DD` day. A change
+ * before the period covers all of it with the new plan, a change after it
+ * leaves all of it on the previous plan.
+ */
+export function getPlanSegments(
+  period: BillingPeriod,
+  since: string,
+  previous: Omit<PlanSegment, 'firstDay' | 'lastDay'>,
+  current: Omit<PlanSegment, 'firstDay' | 'lastDay'>,
+): PlanSegment[] {
+  const daysInMonth = getDaysInPeriod(period)
+  const [year, month, day] = since.split('-').map(Number) as [
+    number,
+    number,
+    number,
+  ]
+  const offset = (year - period.year) * 12 + (month - period.month)
+
+  if (offset < 0 || (offset === 0 && day === 1)) {
+    return [{ ...current, firstDay: 1, lastDay: daysInMonth }]
+  }
+  if (offset > 0) {
+    return [{ ...previous, firstDay: 1, lastDay: daysInMonth }]
+  }
+  return [
+    { ...previous, firstDay: 1, lastDay: day - 1 },
+    { ...current, firstDay: day, lastDay: daysInMonth },
+  ]
+}
+
+/** Allowance of the month, each plan weighted by its share of the days */
+export function getProratedAllowance(segments: PlanSegment[]): number {
+  const daysInMonth = segments.at(-1)!.lastDay
+  return Math.round(getAccruedAllowance(segments, daysInMonth) / daysInMonth)
+}
+
+/**
+ * Fraction of the prorated allowance accrued by the end of `day`, the pace
+ * an even usage of each plan's allowance would follow. `day` may be
+ * fractional, to accrue part of a day.
+ */
+export function getAccruedFraction(
+  segments: PlanSegment[],
+  day: number,
+): number {
+  const total = getAccruedAllowance(segments, segments.at(-1)!.lastDay)
+  if (total === 0) return day / segments.at(-1)!.lastDay
+  return getAccruedAllowance(segments, day) / total
+}
+
+/** Sum of each segment's allowance times its days elapsed by `day` */
+function getAccruedAllowance(segments: PlanSegment[], day: number): number {
+  return segments.reduce((sum, { allowance, firstDay, lastDay }) => {
+    const days = Math.min(day, lastDay) - (firstDay - 1)
+    return sum + allowance * Math.max(0, days)
+  }, 0)
+}
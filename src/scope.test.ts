@@ -0,0 +1,81 @@
+import { describe, expect, test } from 'bun:test'
+import {
+  type BillingScope,
+  getScopeFilters,
+  getScopeName,
+  getScopePath,
+} from './scope.ts'
+import { FIXED_DATE } from './test-utils.ts'
+import { fetchUsage } from './usage.ts'
+
+const USER: BillingScope = { type: 'user', username: 'octocat' }
+const ORG: BillingScope = { type: 'org', org: 'acme' }
+const MEMBER: BillingScope = { type: 'org', org: 'acme', user: 'octocat' }
+const ENTERPRISE: BillingScope = { type: 'enterprise', enterprise: 'megacorp' }
+const COST_CENTER: BillingScope = {
+  type: 'enterprise',
+  enterprise: 'megacorp',
+  costCenter: '1a2b3c',
+}
+
+describe('getScopePath', () => {
+  test('maps each scope to its billing endpoint', () => {
+    expect(getScopePath(USER)).toBe('/users/octocat')
+    expect(getScopePath(ORG)).toBe('/organizations/acme')
+    expect(getScopePath(ENTERPRISE)).toBe('/enterprises/megacorp')
+  })
+
+  test('ignores the filters of the scope', () => {
+    expect(getScopePath(MEMBER)).toBe('/organizations/acme')
+    expect(getScopePath(COST_CENTER)).toBe('/enterprises/megacorp')
+  })
+})
+
+describe('getScopeFilters', () => {
+  test('has no filters for whole scopes', () => {
+    expect(getScopeFilters(USER)).toEqual({})
+    expect(getScopeFilters(ORG)).toEqual({})
+    expect(getScopeFilters(ENTERPRISE)).toEqual({})
+  })
+
+  test('narrows an organization down to a member', () => {
+    expect(getScopeFilters(MEMBER)).toEqual({ user: 'octocat' })
+  })
+
+  test('narrows an enterprise down to a cost center', () => {
+    expect(getScopeFilters(COST_CENTER)).toEqual({ cost_center_id: '1a2b3c' })
+  })
+})
+
+describe('getScopeName', () => {
+  test('names the user, organization or enterprise', () => {
+    expect(getScopeName(USER)).toBe('octocat')
+    expect(getScopeName(ORG)).toBe('acme')
+    expect(getScopeName(MEMBER)).toBe('acme')
+    expect(getScopeName(ENTERPRISE)).toBe('megacorp')
+    expect(getScopeName(COST_CENTER)).toBe('megacorp')
+  })
+})
+
+describe('usage endpoints', () => {
+  test('are requested with the path and filters of each scope', async () => {
+    const usage = '/settings/billing/premium_request/usage?year=2025&month=06'
+    for (const [scope, url] of [
+      [USER, `/users/octocat${usage}`],
+      [ORG, `/organizations/acme${usage}`],
+      [MEMBER, `/organizations/acme${usage}&user=octocat`],
+      [ENTERPRISE, `/enterprises/megacorp${usage}`],
+      [COST_CENTER, `/enterprises/megacorp${usage}&cost_center_id=1a2b3c`],
+    ] as const) {
+      const urls: string[] = []
+      const fetcher = async (requested: string) => {
+        urls.push(requested)
+        return { usageItems: [] }
+      }
+      expect(await fetchUsage(scope, FIXED_DATE, fetcher)).not.toBeInstanceOf(
+        Error,
+      )
+      expect(urls).toEqual([url])
+    }
+  })
+})
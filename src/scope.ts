@@ -0,0 +1,45 @@
+/**
+ * Whose premium request usage is being reported. Each scope maps to one
+ * of the billing API's usage endpoints plus its filter parameters.
+ */
+export type BillingScope =
+  | { type: 'user'; username: string }
+  /** `user` narrows an organization's usage down to a single member */
+  | { type: 'org'; org: string; user?: string }
+  /** `costCenter` narrows an enterprise's usage down to one cost center */
+  | { type: 'enterprise'; enterprise: string; costCenter?: string }
+
+export const SCOPE_TYPES = ['user', 'org', 'enterprise'] as const
+
+export function getScopePath(scope: BillingScope): string {
+  switch (scope.type) {
+    case 'user':
+      return `/users/${scope.username}`
+    case 'org':
+      return `/organizations/${scope.org}`
+    case 'enterprise':
+      return `/enterprises/${scope.enterprise}`
+  }
+}
+
+/** Filter parameters for the scope's usage endpoint */
+export function getScopeFilters(scope: BillingScope): Record<string, string> {
+  if (scope.type === 'org' && scope.user !== undefined) {
+    return { user: scope.user }
+  }
+  if (scope.type === 'enterprise' && scope.costCenter !== undefined) {
+    return { cost_center_id: scope.costCenter }
+  }
+  return {}
+}
+
+export function getScopeName(scope: BillingScope): string {
+  switch (scope.type) {
+    case 'user':
+      return scope.username
+    case 'org':
+      return scope.org
+    case 'enterprise':
+      return scope.enterprise
+  }
+}
@@ -0,0 +1,24 @@
+import type { UsageData } from './usage.ts'
+
+/** Noon of June 15, 2025, half-way through its billing cycle */
+export const FIXED_DATE = new Date('2025-06-15T12:00:00Z')
+
+/** Usage of octocat in June 2025 as of `FIXED_DATE`, none by default */
+export function makeUsageData(overrides: Partial<UsageData> = {}): UsageData {
+  return {
+    scope: { type: 'user', username: 'octocat' },
+    year: 2025,
+    month: '06',
+    monthName: 'June',
+    currentDay: 15,
+    daysInMonth: 30,
+    nextResetDate: new Date(Date.UTC(2025, 6, 1)),
+    now: FIXED_DATE,
+    closed: false,
+    totalUsage: 0,
+    modelCounts: new Map(),
+    orgCounts: new Map(),
+    cost: null,
+    ...overrides,
+  }
+}
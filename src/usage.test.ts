@@ -1,7 +1,29 @@
 import { describe, expect, test } from 'bun:test'
-import { FetchError, ParseError, fetchUsage, fetchUsername } from './usage.ts'
+import type { BillingScope } from './scope.ts'
+import { FIXED_DATE, makeUsageData } from './test-utils.ts'
+import {
+  FetchError,
+  InvalidPeriodError,
+  ParseError,
+  type UsageData,
+  USAGE_REPORT_VERSION,
+  buildUsageReport,
+  comparePeriods,
+  fetchDailyModelUsage,
+  fetchDailyUsage,
+  fetchSeatCount,
+  fetchUsage,
+  fetchUsageHistory,
+  fetchUsername,
+  formatPeriod,
+  getCurrentPeriod,
+  getCycleProgress,
+  shiftPeriod,
+  usageReportSchema,
+} from './usage.ts'
 
-const FIXED_DATE = new Date('2025-06-15T12:00:00Z')
+const OCTOCAT: BillingScope = { type: 'user', username: 'octocat' }
+const ACME: BillingScope = { type: 'org', org: 'acme' }
 
 describe('fetchUsername', () => {
   test('returns login on success', async () => {
@@ -23,6 +45,68 @@ describe('fetchUsername', () => {
   })
 })
 
+describe('fetchSeatCount', () => {
+  test('returns the total number of assigned seats', async () => {
+    const fetcher = async (url: string) => {
+      expect(url).toBe('/orgs/acme/copilot/billing')
+      return { seat_breakdown: { total: 12, active_this_cycle: 9 } }
+    }
+    const result = await fetchSeatCount(ACME, fetcher)
+    expect(result).toBe(12)
+  })
+
+  test('returns FetchError when fetcher throws', async () => {
+    const fetcher = async () => { throw new Error('forbidden') }
+    const result = await fetchSeatCount(ACME, fetcher)
+    expect(result).toBeInstanceOf(FetchError)
+  })
+
+  test('returns ParseError when response lacks the seat breakdown', async () => {
+    const fetcher = async () => ({ seats: 12 })
+    const result = await fetchSeatCount(ACME, fetcher)
+    expect(result).toBeInstanceOf(ParseError)
+  })
+
+  test('counts a single seat for user scopes without fetching', async () => {
+    const fetcher = async () => { throw new Error('should not fetch') }
+    const result = await fetchSeatCount(OCTOCAT, fetcher)
+    expect(result).toBe(1)
+  })
+
+  test('returns the total enterprise seats', async () => {
+    const fetcher = async (url: string) => {
+      expect(url).toBe('/enterprises/megacorp/copilot/billing/seats?per_page=1')
+      return { total_seats: 250, seats: [] }
+    }
+    const scope: BillingScope = { type: 'enterprise', enterprise: 'megacorp' }
+    const result = await fetchSeatCount(scope, fetcher)
+    expect(result).toBe(250)
+  })
+
+  test('counts the users assigned to a cost center', async () => {
+    const fetcher = async (url: string) => {
+      expect(url).toBe(
+        '/enterprises/megacorp/settings/billing/cost-centers/cc-42',
+      )
+      return {
+        id: 'cc-42',
+        resources: [
+          { type: 'User', name: 'octocat' },
+          { type: 'Org', name: 'acme' },
+          { type: 'User', name: 'hubot' },
+        ],
+      }
+    }
+    const scope: BillingScope = {
+      type: 'enterprise',
+      enterprise: 'megacorp',
+      costCenter: 'cc-42',
+    }
+    const result = await fetchSeatCount(scope, fetcher)
+    expect(result).toBe(2)
+  })
+})
+
 describe('fetchUsage', () => {
   test('returns UsageData with aggregated model counts', async () => {
     const fetcher = async () => ({
@@ -32,7 +116,7 @@ describe('fetchUsage', () => {
         { grossQuantity: 3, model: 'claude-3.5-sonnet' },
       ],
     })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -45,7 +129,7 @@ describe('fetchUsage', () => {
     const fetcher = async () => ({
       usageItems: [{ grossQuantity: 7 }],
     })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -54,7 +138,7 @@ describe('fetchUsage', () => {
 
   test('handles missing usageItems gracefully', async () => {
     const fetcher = async () => ({})
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -64,7 +148,7 @@ describe('fetchUsage', () => {
 
   test('handles empty usageItems array', async () => {
     const fetcher = async () => ({ usageItems: [] })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -74,19 +158,19 @@ describe('fetchUsage', () => {
 
   test('returns FetchError when fetcher throws', async () => {
     const fetcher = async () => { throw new Error('network error') }
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).toBeInstanceOf(FetchError)
   })
 
   test('returns ParseError for malformed response', async () => {
     const fetcher = async () => ({ usageItems: [{ grossQuantity: 'not-a-number' }] })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).toBeInstanceOf(ParseError)
   })
 
   test('populates date fields correctly', async () => {
     const fetcher = async () => ({ usageItems: [] })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -95,12 +179,12 @@ describe('fetchUsage', () => {
     expect(result.monthName).toBe('June')
     expect(result.currentDay).toBe(15)
     expect(result.daysInMonth).toBe(30)
-    expect(result.username).toBe('octocat')
+    expect(result.scope).toEqual(OCTOCAT)
   })
 
   test('next reset date is first of next month', async () => {
     const fetcher = async () => ({ usageItems: [] })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
@@ -110,13 +194,175 @@ describe('fetchUsage', () => {
   test('next reset date wraps year correctly in December', async () => {
     const fetcher = async () => ({ usageItems: [] })
     const decDate = new Date('2025-12-10T12:00:00Z')
-    const result = await fetchUsage('octocat', decDate, fetcher)
+    const result = await fetchUsage(OCTOCAT, decDate, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
     expect(result.nextResetDate.toISOString()).toBe('2026-01-01T00:00:00.000Z')
   })
 
+  test('requests the given billing period', async () => {
+    const urls: string[] = []
+    const fetcher = async (url: string) => {
+      urls.push(url)
+      return { usageItems: [] }
+    }
+    await fetchUsage(OCTOCAT, FIXED_DATE, fetcher, { year: 2025, month: 4 })
+    expect(urls[0]).toContain('year=2025&month=04')
+  })
+
+  test('queries the organization billing endpoint for org scopes', async () => {
+    const urls: string[] = []
+    const fetcher = async (url: string) => {
+      urls.push(url)
+      return { usageItems: [{ grossQuantity: 12, model: 'gpt-4o' }] }
+    }
+    const scope: BillingScope = { type: 'org', org: 'acme' }
+    const result = await fetchUsage(scope, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(urls[0]).toBe(
+      '/organizations/acme/settings/billing/premium_request/usage?year=2025&month=06',
+    )
+    expect(result.scope).toEqual(scope)
+    expect(result.totalUsage).toBe(12)
+  })
+
+  test('filters enterprise usage by cost center and totals organizations', async () => {
+    const urls: string[] = []
+    const fetcher = async (url: string) => {
+      urls.push(url)
+      return {
+        usageItems: [
+          { grossQuantity: 10, model: 'gpt-4o', organizationName: 'acme' },
+          { grossQuantity: 4, model: 'gpt-4o', organizationName: 'globex' },
+          { grossQuantity: 6, model: 'o3', organizationName: 'acme' },
+        ],
+      }
+    }
+    const scope: BillingScope = {
+      type: 'enterprise',
+      enterprise: 'megacorp',
+      costCenter: 'cc-42',
+    }
+    const result = await fetchUsage(scope, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(urls[0]).toBe(
+      '/enterprises/megacorp/settings/billing/premium_request/usage?year=2025&month=06&cost_center_id=cc-42',
+    )
+    expect(result.orgCounts.get('acme')).toBe(16)
+    expect(result.orgCounts.get('globex')).toBe(4)
+  })
+
+  test('leaves organization totals empty without organization names', async () => {
+    const fetcher = async () => ({
+      usageItems: [{ grossQuantity: 3, model: 'gpt-4o' }],
+    })
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+    expect(result.orgCounts.size).toBe(0)
+  })
+
+  test('past billing period is a closed, completed cycle', async () => {
+    const fetcher = async () => ({ usageItems: [] })
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 4,
+    })
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.closed).toBe(true)
+    expect(result.monthName).toBe('April')
+    expect(result.currentDay).toBe(30)
+    expect(result.daysInMonth).toBe(30)
+    expect(result.nextResetDate.toISOString()).toBe('2025-05-01T00:00:00.000Z')
+  })
+
+  test('current billing period is open', async () => {
+    const fetcher = async () => ({ usageItems: [] })
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 6,
+    })
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.closed).toBe(false)
+    expect(result.currentDay).toBe(15)
+  })
+
+  test('returns InvalidPeriodError for a future billing period', async () => {
+    const fetcher = async () => { throw new Error('should not call') }
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 7,
+    })
+    expect(result).toBeInstanceOf(InvalidPeriodError)
+  })
+
+  test('aggregates pricing fields into a cost summary', async () => {
+    const fetcher = async () => ({
+      usageItems: [
+        {
+          model: 'gpt-4o',
+          grossQuantity: 280,
+          pricePerUnit: 0.04,
+          grossAmount: 11.2,
+          discountQuantity: 280,
+          discountAmount: 11.2,
+          netQuantity: 0,
+          netAmount: 0,
+        },
+        {
+          model: 'claude-sonnet-4',
+          grossQuantity: 70,
+          pricePerUnit: 0.04,
+          grossAmount: 2.8,
+          discountQuantity: 20,
+          discountAmount: 0.8,
+          netQuantity: 50,
+          netAmount: 2,
+        },
+      ],
+    })
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.cost).toEqual({
+      pricePerUnit: 0.04,
+      grossAmount: 14,
+      discountQuantity: 300,
+      discountAmount: 12,
+      netQuantity: 50,
+      netAmount: 2,
+    })
+    expect(result.modelCosts?.get('claude-sonnet-4')).toEqual({
+      pricePerUnit: 0.04,
+      grossAmount: 2.8,
+      discountQuantity: 20,
+      discountAmount: 0.8,
+      netQuantity: 50,
+      netAmount: 2,
+    })
+  })
+
+  test('cost is null when the response has no pricing', async () => {
+    const fetcher = async () => ({
+      usageItems: [{ grossQuantity: 3, model: 'gpt-4o' }],
+    })
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.cost).toBeNull()
+  })
+
   test('rounds totalUsage to 2 decimal places', async () => {
     const fetcher = async () => ({
       usageItems: [
@@ -125,10 +371,392 @@ describe('fetchUsage', () => {
         { grossQuantity: 1.334, model: 'a' },
       ],
     })
-    const result = await fetchUsage('octocat', FIXED_DATE, fetcher)
+    const result = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
     expect(result).not.toBeInstanceOf(Error)
     if (result instanceof Error) return
 
     expect(result.totalUsage).toBe(4)
   })
 })
+
+describe('fetchUsageHistory', () => {
+  function monthlyFetcher(totals: Record<string, number>) {
+    return async (url: string) => {
+      const match = /year=(\d+)&month=(\d+)/.exec(url)
+      const key = `${match?.[1]}-${match?.[2]}`
+      return {
+        usageItems: [{ grossQuantity: totals[key] ?? 0, model: 'gpt-4o' }],
+      }
+    }
+  }
+
+  test('returns the last N months, oldest first', async () => {
+    const fetcher = monthlyFetcher({
+      '2025-04': 40,
+      '2025-05': 50,
+      '2025-06': 60,
+    })
+    const result = await fetchUsageHistory(OCTOCAT, FIXED_DATE, 3, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.map((data) => data.month)).toEqual(['04', '05', '06'])
+    expect(result.map((data) => data.totalUsage)).toEqual([40, 50, 60])
+    expect(result.map((data) => data.closed)).toEqual([true, true, false])
+  })
+
+  test('spans year boundaries', async () => {
+    const fetcher = monthlyFetcher({})
+    const result = await fetchUsageHistory(
+      OCTOCAT,
+      new Date('2025-02-10T12:00:00Z'),
+      4,
+      fetcher,
+    )
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.map((data) => `${data.year}-${data.month}`)).toEqual([
+      '2024-11',
+      '2024-12',
+      '2025-01',
+      '2025-02',
+    ])
+  })
+
+  test('ends at the given billing period', async () => {
+    const fetcher = monthlyFetcher({})
+    const result = await fetchUsageHistory(OCTOCAT, FIXED_DATE, 2, fetcher, {
+      year: 2025,
+      month: 3,
+    })
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result.map((data) => data.month)).toEqual(['02', '03'])
+  })
+
+  test('returns the first error when any month fails', async () => {
+    const fetcher = async (url: string) => {
+      if (url.includes('month=05')) throw new Error('network error')
+      return { usageItems: [] }
+    }
+    const result = await fetchUsageHistory(OCTOCAT, FIXED_DATE, 3, fetcher)
+    expect(result).toBeInstanceOf(FetchError)
+  })
+})
+
+describe('fetchDailyUsage', () => {
+  function dailyFetcher(totals: Record<number, number>) {
+    return async (url: string) => {
+      const day = Number(/day=(\d+)/.exec(url)?.[1])
+      return {
+        usageItems: [
+          { grossQuantity: (totals[day] ?? 0) / 2, model: 'gpt-4o' },
+          { grossQuantity: (totals[day] ?? 0) / 2, model: 'o3' },
+        ],
+      }
+    }
+  }
+
+  test('returns one total per day of the cycle so far', async () => {
+    const fetcher = dailyFetcher({ 1: 4, 2: 10, 15: 6 })
+    const result = await fetchDailyUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result).toHaveLength(15)
+    expect(result[0]).toBe(4)
+    expect(result[1]).toBe(10)
+    expect(result[2]).toBe(0)
+    expect(result[14]).toBe(6)
+  })
+
+  test('passes the day parameter for the requested month', async () => {
+    const urls: string[] = []
+    const fetcher = async (url: string) => {
+      urls.push(url)
+      return { usageItems: [] }
+    }
+    await fetchDailyUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(urls).toContain(
+      '/users/octocat/settings/billing/premium_request/usage?year=2025&month=06&day=3',
+    )
+  })
+
+  test('covers the whole month for a closed period', async () => {
+    const fetcher = dailyFetcher({})
+    const result = await fetchDailyUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 5,
+    })
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result).toHaveLength(31)
+  })
+
+  test('returns FetchError when any day fails', async () => {
+    const fetcher = async (url: string) => {
+      if (url.includes('day=7')) throw new Error('network error')
+      return { usageItems: [] }
+    }
+    const result = await fetchDailyUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).toBeInstanceOf(FetchError)
+  })
+})
+
+describe('fetchDailyModelUsage', () => {
+  test('breaks each day down per model', async () => {
+    const fetcher = async (url: string) => ({
+      usageItems: url.includes('day=2')
+        ? [
+            { grossQuantity: 3, model: 'gpt-4o' },
+            { grossQuantity: 1, model: 'o3' },
+            { grossQuantity: 2, model: 'gpt-4o' },
+          ]
+        : [],
+    })
+    const result = await fetchDailyModelUsage(OCTOCAT, FIXED_DATE, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result).toHaveLength(15)
+    expect(result[0]?.modelCounts.size).toBe(0)
+    expect(result[1]?.day).toBe(2)
+    expect(result[1]?.modelCounts).toEqual(
+      new Map([
+        ['gpt-4o', 5],
+        ['o3', 1],
+      ]),
+    )
+  })
+
+  test('returns InvalidPeriodError for a future period', async () => {
+    const fetcher = async () => ({ usageItems: [] })
+    const result = await fetchDailyModelUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 7,
+    })
+    expect(result).toBeInstanceOf(InvalidPeriodError)
+  })
+})
+
+describe('billing periods', () => {
+  test('shiftPeriod moves across year boundaries', () => {
+    expect(shiftPeriod({ year: 2025, month: 1 }, -1)).toEqual({
+      year: 2024,
+      month: 12,
+    })
+    expect(shiftPeriod({ year: 2025, month: 12 }, 1)).toEqual({
+      year: 2026,
+      month: 1,
+    })
+    expect(shiftPeriod({ year: 2025, month: 6 }, -18)).toEqual({
+      year: 2023,
+      month: 12,
+    })
+  })
+
+  test('comparePeriods orders chronologically', () => {
+    expect(
+      comparePeriods({ year: 2024, month: 12 }, { year: 2025, month: 1 }),
+    ).toBeLessThan(0)
+    expect(
+      comparePeriods({ year: 2025, month: 3 }, { year: 2025, month: 3 }),
+    ).toBe(0)
+  })
+
+  test('formatPeriod pads the month', () => {
+    expect(formatPeriod({ year: 2025, month: 4 })).toBe('2025-04')
+  })
+
+  test('getCurrentPeriod follows UTC months', () => {
+    // Already July 1 in Auckland, still June 30 in California
+    const auckland = new Date('2025-07-01T05:00:00+12:00')
+    expect(getCurrentPeriod(auckland)).toEqual({ year: 2025, month: 6 })
+    const california = new Date('2025-06-30T23:30:00-07:00')
+    expect(getCurrentPeriod(california)).toEqual({ year: 2025, month: 7 })
+  })
+
+  test('fetchUsage counts days in UTC', async () => {
+    const fetcher = async () => ({ usageItems: [] })
+    const now = new Date('2025-07-01T05:00:00+12:00')
+    const result = await fetchUsage(OCTOCAT, now, fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+    expect(result.monthName).toBe('June')
+    expect(result.currentDay).toBe(30)
+    expect(result.daysInMonth).toBe(30)
+  })
+
+  test('getCycleProgress counts the hours of the current day', async () => {
+    const fetcher = async () => ({ usageItems: [] })
+    const current = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher)
+    const closed = await fetchUsage(OCTOCAT, FIXED_DATE, fetcher, {
+      year: 2025,
+      month: 5,
+    })
+    expect(current).not.toBeInstanceOf(Error)
+    expect(closed).not.toBeInstanceOf(Error)
+    if (current instanceof Error || closed instanceof Error) return
+    // Noon on June 15: 14.5 of 30 days
+    expect(getCycleProgress(current)).toBeCloseTo(14.5 / 30)
+    expect(getCycleProgress(closed)).toBe(1)
+  })
+})
+
+describe('buildUsageReport', () => {
+  test('conforms to the published schema', () => {
+    const report = buildUsageReport(
+      makeUsageData({
+        totalUsage: 150,
+        modelCounts: new Map([['gpt-4o', 150]]),
+      }),
+      'pro',
+      300,
+    )
+    const parsed = usageReportSchema.safeParse(report)
+    expect(parsed.success).toBe(true)
+    expect(report.version).toBe(USAGE_REPORT_VERSION)
+  })
+
+  test('is documented by the example of the README', async () => {
+    const readme = await Bun.file(
+      new URL('../README.md', import.meta.url),
+    ).text()
+    const example = /### JSON output[\s\S]*?```json\n([\s\S]*?)```/.exec(readme)
+    const report = buildUsageReport(
+      makeUsageData({
+        totalUsage: 142,
+        modelCounts: new Map([['gpt-4o', 142]]),
+        cost: {
+          pricePerUnit: 0.04,
+          grossAmount: 5.68,
+          discountQuantity: 142,
+          discountAmount: 5.68,
+          netQuantity: 0,
+          netAmount: 0,
+        },
+      }),
+      'pro',
+      300,
+    )
+    const documented = JSON.parse(example![1]!)
+    expect(usageReportSchema.safeParse(documented).success).toBe(true)
+    expect(documented).toEqual(JSON.parse(JSON.stringify(report)))
+  })
+
+  test('contains resolved period, totals and progress', () => {
+    const report = buildUsageReport(
+      makeUsageData({ totalUsage: 75 }),
+      'pro+',
+      300,
+    )
+    expect(report.username).toBe('octocat')
+    expect(report.plan).toBe('pro+')
+    expect(report.limit).toBe(300)
+    expect(report.period).toEqual({
+      year: 2025,
+      month: 6,
+      start: '2025-06-01',
+      end: '2025-06-30',
+      closed: false,
+    })
+    expect(report.totalUsage).toBe(75)
+    expect(report.percentage).toBe(25)
+    expect(report.monthProgress).toEqual({
+      currentDay: 15,
+      daysInMonth: 30,
+      // Noon of the 15th, 14.5 days elapsed
+      ratio: 0.48,
+    })
+    expect(report.nextResetDate).toBe('2025-07-01T00:00:00.000Z')
+  })
+
+  test('serializes model counts as an array sorted by usage', () => {
+    const report = buildUsageReport(
+      makeUsageData({
+        totalUsage: 110,
+        modelCounts: new Map([
+          ['model-a', 10],
+          ['model-b', 100],
+        ]),
+      }),
+      'pro',
+      200,
+    )
+    expect(report.models).toEqual([
+      { model: 'model-b', count: 100, percentage: 50 },
+      { model: 'model-a', count: 10, percentage: 5 },
+    ])
+  })
+
+  test('includes per-day counts when daily usage is available', () => {
+    const report = buildUsageReport(
+      makeUsageData({ dailyUsage: [3, 0, 5] }),
+      'pro',
+      300,
+    )
+    expect(report.daily).toEqual([
+      { day: 1, count: 3 },
+      { day: 2, count: 0 },
+      { day: 3, count: 5 },
+    ])
+    expect(usageReportSchema.safeParse(report).success).toBe(true)
+  })
+
+  test('reports the scope of the usage', () => {
+    const userReport = buildUsageReport(makeUsageData(), 'pro', 300)
+    expect(userReport.username).toBe('octocat')
+    expect(userReport.scope).toEqual({ type: 'user', name: 'octocat' })
+
+    const orgReport = buildUsageReport(
+      makeUsageData({ scope: { type: 'org', org: 'acme' } }),
+      'business',
+      3000,
+    )
+    expect(orgReport.username).toBeUndefined()
+    expect(orgReport.scope).toEqual({ type: 'org', name: 'acme' })
+    expect(usageReportSchema.safeParse(orgReport).success).toBe(true)
+  })
+
+  test('breaks enterprise usage down by organization', () => {
+    const report = buildUsageReport(
+      makeUsageData({
+        scope: {
+          type: 'enterprise',
+          enterprise: 'megacorp',
+          costCenter: 'cc-42',
+        },
+        totalUsage: 40,
+        orgCounts: new Map([
+          ['globex', 10],
+          ['acme', 30],
+        ]),
+      }),
+      'enterprise',
+      1000,
+    )
+    expect(report.scope).toEqual({
+      type: 'enterprise',
+      name: 'megacorp',
+      costCenter: 'cc-42',
+    })
+    expect(report.organizations).toEqual([
+      { organization: 'acme', count: 30, percentage: 3 },
+      { organization: 'globex', count: 10, percentage: 1 },
+    ])
+    expect(usageReportSchema.safeParse(report).success).toBe(true)
+  })
+
+  test('survives a JSON round-trip', () => {
+    const report = buildUsageReport(
+      makeUsageData({ modelCounts: new Map([['gpt-4o', 1.5]]) }),
+      'pro',
+      300,
+    )
+    const parsed = usageReportSchema.parse(JSON.parse(JSON.stringify(report)))
+    expect(parsed).toEqual(report)
+  })
+})
@@ -1,10 +1,18 @@
 import * as errore from 'errore'
 import { z } from 'zod'
+import { mapConcurrent } from './pool.ts'
+import {
+  type BillingScope,
+  SCOPE_TYPES,
+  getScopeFilters,
+  getScopeName,
+  getScopePath,
+} from './scope.ts'
 
 export type Fetcher = (url: string) => Promise<unknown>
 
 export type UsageData = {
-  username: string
+  scope: BillingScope
   year: number
   month: string
   monthName: string
@@ -12,8 +20,46 @@ export type UsageData = {
   daysInMonth: number
   nextResetDate: Date
   now: Date
+  closed: boolean
   totalUsage: number
   modelCounts: Map<string, number>
+  /** Per-organization totals, only filled for enterprise scopes */
+  orgCounts: Map<string, number>
+  /** Billing amounts, or null when the API returned no pricing */
+  cost: UsageCost | null
+  /** Per-model billing amounts, only filled for priced models */
+  modelCosts?: Map<string, UsageCost>
+  /** Per-day totals for the cycle so far, when requested with `--daily` */
+  dailyUsage?: number[]
+  /** Per-day model breakdown, when exporting with `--daily` */
+  dailyModels?: DailyModelUsage[]
+}
+
+/** Usage of a single day of a billing period */
+export type DailyModelUsage = {
+  /** Day of the month, starting at 1 */
+  day: number
+  modelCounts: Map<string, number>
+  modelCosts: Map<string, UsageCost>
+}
+
+/**
+ * Billing totals for a period. Discounted requests are the ones included
+ * in the plan, net requests are the overage actually billed.
+ */
+export type UsageCost = {
+  pricePerUnit: number
+  grossAmount: number
+  discountQuantity: number
+  discountAmount: number
+  netQuantity: number
+  netAmount: number
+}
+
+/** A calendar billing month, with a 1-based month. */
+export type BillingPeriod = {
+  year: number
+  month: number
 }
 
 export class FetchError extends errore.createTaggedError({
@@ -26,61 +72,183 @@ export class ParseError extends errore.createTaggedError({
   message: 'Failed to parse API response: $reason',
 }) {}
 
+export class InvalidPeriodError extends errore.createTaggedError({
+  name: 'InvalidPeriodError',
+  message: 'Billing period $period is in the future',
+}) {}
+
 const usageItemSchema = z.object({
   grossQuantity: z.number(),
   model: z.string().optional(),
+  /** Only present in enterprise reports */
+  organizationName: z.string().optional(),
+  pricePerUnit: z.number().optional(),
+  grossAmount: z.number().optional(),
+  discountQuantity: z.number().optional(),
+  discountAmount: z.number().optional(),
+  netQuantity: z.number().optional(),
+  netAmount: z.number().optional(),
 })
 
 const usageResponseSchema = z.object({
   usageItems: z.array(usageItemSchema).optional(),
 })
 
-export async function fetchUsage(
-  username: string,
-  now: Date,
-  fetcher: Fetcher,
-): Promise<UsageData | FetchError | ParseError> {
-  const year = now.getFullYear()
-  const month = String(now.getMonth() + 1).padStart(2, '0')
+export const USAGE_REPORT_VERSION = 1
 
-  const rawOrError = await fetcher(
-    `/users/${username}/settings/billing/premium_request/usage?year=${year}&month=${month}`,
-  ).catch((e: unknown) => {
-    const reason = e instanceof Error ? e.message : String(e)
-    return new FetchError({ reason, cause: e instanceof Error ? e : undefined })
-  })
+/**
+ * Machine-readable report emitted by `--format json`.
+ * Bump USAGE_REPORT_VERSION on any breaking change to this shape.
+ */
+export const usageReportSchema = z.object({
+  version: z.literal(USAGE_REPORT_VERSION),
+  /** Only set for user scopes */
+  username: z.string().optional(),
+  scope: z.object({
+    type: z.enum(SCOPE_TYPES),
+    name: z.string(),
+    costCenter: z.string().optional(),
+  }),
+  plan: z.string(),
+  limit: z.number(),
+  period: z.object({
+    year: z.number().int(),
+    month: z.number().int().min(1).max(12),
+    start: z.iso.date(),
+    end: z.iso.date(),
+    closed: z.boolean(),
+  }),
+  totalUsage: z.number(),
+  percentage: z.number(),
+  monthProgress: z.object({
+    currentDay: z.number().int(),
+    daysInMonth: z.number().int(),
+    ratio: z.number(),
+  }),
+  nextResetDate: z.iso.datetime(),
+  models: z.array(
+    z.object({
+      model: z.string(),
+      count: z.number(),
+      percentage: z.number(),
+    }),
+  ),
+  /** Only set for enterprise scopes */
+  organizations: z
+    .array(
+      z.object({
+        organization: z.string(),
+        count: z.number(),
+        percentage: z.number(),
+      }),
+    )
+    .optional(),
+  daily: z
+    .array(z.object({ day: z.number().int(), count: z.number() }))
+    .optional(),
+  cost: z
+    .object({
+      pricePerUnit: z.number(),
+      grossAmount: z.number(),
+      discountQuantity: z.number(),
+      discountAmount: z.number(),
+      netQuantity: z.number(),
+      netAmount: z.number(),
+    })
+    .nullable(),
+})
 
-  if (rawOrError instanceof FetchError) return rawOrError
-  const raw: unknown = rawOrError
+export type UsageReport = z.infer<typeof usageReportSchema>
 
-  const parsed = usageResponseSchema.safeParse(raw)
-  if (!parsed.success) {
-    return new ParseError({ reason: parsed.error.message })
+/** Billing cycles follow the calendar months of UTC, whatever the local zone */
+export function getCurrentPeriod(now: Date): BillingPeriod {
+  return { year: now.getUTCFullYear(), month: now.getUTCMonth() + 1 }
+}
+
+export function shiftPeriod(
+  period: BillingPeriod,
+  months: number,
+): BillingPeriod {
+  const index = period.year * 12 + (period.month - 1) + months
+  return { year: Math.floor(index / 12), month: (index % 12) + 1 }
+}
+
+export function comparePeriods(a: BillingPeriod, b: BillingPeriod): number {
+  return a.year * 12 + a.month - (b.year * 12 + b.month)
+}
+
+export function getMonthName(period: BillingPeriod): string {
+  return new Date(Date.UTC(period.year, period.month - 1, 1)).toLocaleString(
+    'en-US',
+    { month: 'long', timeZone: 'UTC' },
+  )
+}
+
+export function getDaysInPeriod(period: BillingPeriod): number {
+  return new Date(Date.UTC(period.year, period.month, 0)).getUTCDate()
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Elapsed fraction of the billing cycle, counting the hours of the current
+ * day rather than whole days. Days are UTC days, so that the pace is the
+ * same in every time zone and doesn't jump at local midnight.
+ */
+export function getCycleProgress(data: UsageData): number {
+  if (data.closed) return 1
+  const dayProgress = (data.now.getTime() % DAY_MS) / DAY_MS
+  return (data.currentDay - 1 + dayProgress) / data.daysInMonth
+}
+
+export function formatPeriod(period: BillingPeriod): string {
+  return `${period.year}-${String(period.month).padStart(2, '0')}`
+}
+
+export async function fetchUsage(
+  scope: BillingScope,
+  now: Date,
+  fetcher: Fetcher,
+  period: BillingPeriod = getCurrentPeriod(now),
+): Promise<UsageData | FetchError | ParseError | InvalidPeriodError> {
+  const offset = comparePeriods(period, getCurrentPeriod(now))
+  if (offset > 0) {
+    return new InvalidPeriodError({ period: formatPeriod(period) })
   }
+  const closed = offset < 0
+
+  const year = period.year
+  const month = String(period.month).padStart(2, '0')
 
-  const items = parsed.data.usageItems ?? []
+  const items = await fetchUsageItems(scope, period, fetcher)
+  if (items instanceof Error) return items
 
   const totalUsage =
     Math.round(
       items.reduce((sum: number, item) => sum + item.grossQuantity, 0) * 100,
     ) / 100
 
-  const modelCounts = new Map<string, number>()
+  const { modelCounts, modelCosts } = aggregateModels(items)
+  const orgCounts = new Map<string, number>()
   for (const item of items) {
-    const model = item.model ?? 'Unknown'
-    modelCounts.set(model, (modelCounts.get(model) ?? 0) + item.grossQuantity)
+    if (item.organizationName !== undefined) {
+      const org = item.organizationName
+      orgCounts.set(org, (orgCounts.get(org) ?? 0) + item.grossQuantity)
+    }
   }
 
-  const monthName = now.toLocaleString('en-US', { month: 'long' })
-  const currentDay = now.getDate()
-  const daysInMonth = new Date(year, now.getMonth() + 1, 0).getDate()
+  const cost = aggregateCost(items)
 
-  const nextMonthIndex = now.getMonth() === 11 ? 0 : now.getMonth() + 1
-  const nextYear = now.getMonth() === 11 ? year + 1 : year
-  const nextResetDate = new Date(Date.UTC(nextYear, nextMonthIndex, 1))
+  const monthName = getMonthName(period)
+  const daysInMonth = getDaysInPeriod(period)
+  // A closed period is a completed cycle: pin the cursor to its last day
+  const currentDay = closed ? daysInMonth : now.getUTCDate()
+
+  const next = shiftPeriod(period, 1)
+  const nextResetDate = new Date(Date.UTC(next.year, next.month - 1, 1))
 
   return {
-    username,
+    scope,
     year,
     month,
     monthName,
@@ -88,9 +256,248 @@ export async function fetchUsage(
     daysInMonth,
     nextResetDate,
     now,
+    closed,
     totalUsage,
     modelCounts,
+    orgCounts,
+    cost,
+    modelCosts,
+  }
+}
+
+type UsageItem = z.infer<typeof usageItemSchema>
+
+function getUsageUrl(
+  scope: BillingScope,
+  period: BillingPeriod,
+  day?: number,
+): string {
+  const params = new URLSearchParams({
+    year: String(period.year),
+    month: String(period.month).padStart(2, '0'),
+  })
+  if (day !== undefined) params.set('day', String(day))
+  for (const [key, value] of Object.entries(getScopeFilters(scope))) {
+    params.set(key, value)
+  }
+  return `${getScopePath(scope)}/settings/billing/premium_request/usage?${params}`
+}
+
+async function fetchUsageItems(
+  scope: BillingScope,
+  period: BillingPeriod,
+  fetcher: Fetcher,
+  day?: number,
+): Promise<UsageItem[] | FetchError | ParseError> {
+  const rawOrError = await fetcher(getUsageUrl(scope, period, day)).catch(
+    (e: unknown) => {
+      const reason = e instanceof Error ? e.message : String(e)
+      return new FetchError({
+        reason,
+        cause: e instanceof Error ? e : undefined,
+      })
+    },
+  )
+
+  if (rawOrError instanceof FetchError) return rawOrError
+  const raw: unknown = rawOrError
+
+  const parsed = usageResponseSchema.safeParse(raw)
+  if (!parsed.success) {
+    return new ParseError({ reason: parsed.error.message })
+  }
+
+  return parsed.data.usageItems ?? []
+}
+
+function aggregateCost(items: UsageItem[]): UsageCost | null {
+  const priced = items.filter((item) => item.pricePerUnit !== undefined)
+  if (priced.length === 0) return null
+
+  const sum = (pick: (item: UsageItem) => number | undefined) =>
+    Math.round(
+      priced.reduce((total, item) => total + (pick(item) ?? 0), 0) * 100,
+    ) / 100
+
+  return {
+    pricePerUnit: Math.max(...priced.map((item) => item.pricePerUnit ?? 0)),
+    grossAmount: sum((item) => item.grossAmount),
+    discountQuantity: sum((item) => item.discountQuantity),
+    discountAmount: sum((item) => item.discountAmount),
+    netQuantity: sum((item) => item.netQuantity),
+    netAmount: sum((item) => item.netAmount),
+  }
+}
+
+function aggregateModels(items: UsageItem[]): {
+  modelCounts: Map<string, number>
+  modelCosts: Map<string, UsageCost>
+} {
+  const modelItems = new Map<string, UsageItem[]>()
+  for (const item of items) {
+    const model = item.model ?? 'Unknown'
+    modelItems.set(model, [...(modelItems.get(model) ?? []), item])
+  }
+
+  const modelCounts = new Map<string, number>()
+  const modelCosts = new Map<string, UsageCost>()
+  for (const [model, group] of modelItems) {
+    modelCounts.set(
+      model,
+      group.reduce((sum, item) => sum + item.grossQuantity, 0),
+    )
+    const cost = aggregateCost(group)
+    if (cost) modelCosts.set(model, cost)
+  }
+  return { modelCounts, modelCosts }
+}
+
+const DAILY_CONCURRENCY = 4
+
+/**
+ * Fetch per-day usage totals for the cycle so far (the whole month for
+ * closed periods). Index 0 holds the first day of the month.
+ */
+export async function fetchDailyUsage(
+  scope: BillingScope,
+  now: Date,
+  fetcher: Fetcher,
+  period: BillingPeriod = getCurrentPeriod(now),
+): Promise<number[] | FetchError | ParseError | InvalidPeriodError> {
+  const results = await fetchDailyItems(scope, now, fetcher, period)
+  if (results instanceof Error) return results
+  return results.map((items) => {
+    const total = items.reduce((sum, item) => sum + item.grossQuantity, 0)
+    return Math.round(total * 100) / 100
+  })
+}
+
+/**
+ * Fetch the per-day model breakdown of the cycle so far (the whole month
+ * for closed periods), first day first.
+ */
+export async function fetchDailyModelUsage(
+  scope: BillingScope,
+  now: Date,
+  fetcher: Fetcher,
+  period: BillingPeriod = getCurrentPeriod(now),
+): Promise<DailyModelUsage[] | FetchError | ParseError | InvalidPeriodError> {
+  const results = await fetchDailyItems(scope, now, fetcher, period)
+  if (results instanceof Error) return results
+  return results.map((items, index) => ({
+    day: index + 1,
+    ...aggregateModels(items),
+  }))
+}
+
+async function fetchDailyItems(
+  scope: BillingScope,
+  now: Date,
+  fetcher: Fetcher,
+  period: BillingPeriod,
+): Promise<UsageItem[][] | FetchError | ParseError | InvalidPeriodError> {
+  const offset = comparePeriods(period, getCurrentPeriod(now))
+  if (offset > 0) {
+    return new InvalidPeriodError({ period: formatPeriod(period) })
+  }
+  const lastDay = offset < 0 ? getDaysInPeriod(period) : now.getUTCDate()
+
+  const days = Array.from({ length: lastDay }, (_, i) => i + 1)
+  const results = await mapConcurrent(days, DAILY_CONCURRENCY, (day) =>
+    fetchUsageItems(scope, period, fetcher, day),
+  )
+
+  const daily: UsageItem[][] = []
+  for (const items of results) {
+    if (items instanceof Error) return items
+    daily.push(items)
+  }
+  return daily
+}
+
+const HISTORY_CONCURRENCY = 3
+
+/**
+ * Fetch the last `months` billing periods up to and including `end`,
+ * oldest first.
+ */
+export async function fetchUsageHistory(
+  scope: BillingScope,
+  now: Date,
+  months: number,
+  fetcher: Fetcher,
+  end: BillingPeriod = getCurrentPeriod(now),
+): Promise<UsageData[] | FetchError | ParseError | InvalidPeriodError> {
+  const periods = Array.from({ length: months }, (_, i) =>
+    shiftPeriod(end, i - months + 1),
+  )
+  const results = await mapConcurrent(periods, HISTORY_CONCURRENCY, (period) =>
+    fetchUsage(scope, now, fetcher, period),
+  )
+
+  const history: UsageData[] = []
+  for (const result of results) {
+    if (result instanceof Error) return result
+    history.push(result)
+  }
+  return history
+}
+
+/**
+ * Number of Copilot seats covered by a scope, which multiplies the
+ * per-seat plan allowance into the scope's pooled limit.
+ */
+export async function fetchSeatCount(
+  scope: BillingScope,
+  fetcher: Fetcher,
+): Promise<number | FetchError | ParseError> {
+  let path: string
+  let schema: z.ZodType<number, unknown>
+  switch (scope.type) {
+    case 'user':
+      return 1
+    case 'org':
+      path = `/orgs/${scope.org}/copilot/billing`
+      schema = z
+        .object({ seat_breakdown: z.object({ total: z.number().int() }) })
+        .transform((data) => data.seat_breakdown.total)
+      break
+    case 'enterprise':
+      if (scope.costCenter !== undefined) {
+        // Cost centers list their members as resources
+        path = `/enterprises/${scope.enterprise}/settings/billing/cost-centers/${scope.costCenter}`
+        schema = z
+          .object({ resources: z.array(z.object({ type: z.string() })) })
+          .transform(
+            (data) =>
+              data.resources.filter((resource) => resource.type === 'User')
+                .length,
+          )
+      } else {
+        path = `/enterprises/${scope.enterprise}/copilot/billing/seats?per_page=1`
+        schema = z
+          .object({ total_seats: z.number().int() })
+          .transform((data) => data.total_seats)
+      }
+      break
+  }
+
+  const rawOrError = await fetcher(path).catch((e: unknown) => {
+    const reason = e instanceof Error ? e.message : String(e)
+    return new FetchError({ reason, cause: e instanceof Error ? e : undefined })
+  })
+
+  if (rawOrError instanceof FetchError) return rawOrError
+  const raw: unknown = rawOrError
+
+  const parsed = schema.safeParse(raw)
+  if (!parsed.success) {
+    return new ParseError({
+      reason: `Could not parse seat count from ${path} response`,
+    })
   }
+
+  return parsed.data
 }
 
 export async function fetchUsername(
@@ -113,3 +520,66 @@ export async function fetchUsername(
 
   return parsed.data.login
 }
+
+export function buildUsageReport(
+  data: UsageData,
+  plan: string,
+  limit: number,
+): UsageReport {
+  const round = (value: number) => Math.round(value * 100) / 100
+  const lastDay = String(data.daysInMonth).padStart(2, '0')
+
+  const breakdown = (counts: Map<string, number>) =>
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .map(([name, count]) => ({
+        name,
+        count: round(count),
+        percentage: round((count / limit) * 100),
+      }))
+
+  const models = breakdown(data.modelCounts).map(({ name, ...rest }) => ({
+    model: name,
+    ...rest,
+  }))
+  const organizations =
+    data.orgCounts.size > 0
+      ? breakdown(data.orgCounts).map(({ name, ...rest }) => ({
+          organization: name,
+          ...rest,
+        }))
+      : undefined
+
+  return {
+    version: USAGE_REPORT_VERSION,
+    username: data.scope.type === 'user' ? data.scope.username : undefined,
+    scope: {
+      type: data.scope.type,
+      name: getScopeName(data.scope),
+      costCenter:
+        data.scope.type === 'enterprise' ? data.scope.costCenter : undefined,
+    },
+    plan,
+    limit,
+    period: {
+      year: data.year,
+      month: parseInt(data.month, 10),
+      start: `${data.year}-${data.month}-01`,
+      end: `${data.year}-${data.month}-${lastDay}`,
+      closed: data.closed,
+    },
+    totalUsage: data.totalUsage,
+    percentage: round((data.totalUsage / limit) * 100),
+    monthProgress: {
+      currentDay: data.currentDay,
+      daysInMonth: data.daysInMonth,
+      // Elapsed by the hour, like the pace of the reports
+      ratio: round(getCycleProgress(data)),
+    },
+    nextResetDate: data.nextResetDate.toISOString(),
+    models,
+    organizations,
+    daily: data.dailyUsage?.map((count, index) => ({ day: index + 1, count })),
+    cost: data.cost,
+  }
+}
@@ -0,0 +1,134 @@
+import { describe, expect, test } from 'bun:test'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { FetchError, ParseError } from './usage.ts'
+import {
+  RosterReadError,
+  fetchMemberUsage,
+  fetchOrgMembers,
+  parseRoster,
+  readRoster,
+} from './users.ts'
+
+const FIXED_DATE = new Date('2025-06-15T12:00:00Z')
+
+describe('fetchOrgMembers', () => {
+  test('returns member logins', async () => {
+    const fetcher = async () => [{ login: 'alice' }, { login: 'bob' }]
+    const result = await fetchOrgMembers('acme', fetcher)
+    expect(result).toEqual(['alice', 'bob'])
+  })
+
+  test('follows pagination until a partial page', async () => {
+    const urls: string[] = []
+    const fetcher = async (url: string) => {
+      urls.push(url)
+      const page = Number(/page=(\d+)$/.exec(url)?.[1])
+      const size = page === 1 ? 100 : 3
+      return Array.from({ length: size }, (_, i) => ({
+        login: `user-${page}-${i}`,
+      }))
+    }
+    const result = await fetchOrgMembers('acme', fetcher)
+    expect(result).not.toBeInstanceOf(Error)
+    if (result instanceof Error) return
+
+    expect(result).toHaveLength(103)
+    expect(urls).toEqual([
+      '/orgs/acme/members?per_page=100&page=1',
+      '/orgs/acme/members?per_page=100&page=2',
+    ])
+  })
+
+  test('returns FetchError when fetcher throws', async () => {
+    const fetcher = async () => { throw new Error('forbidden') }
+    const result = await fetchOrgMembers('acme', fetcher)
+    expect(result).toBeInstanceOf(FetchError)
+  })
+
+  test('returns ParseError for malformed response', async () => {
+    const fetcher = async () => ({ message: 'Not Found' })
+    const result = await fetchOrgMembers('acme', fetcher)
+    expect(result).toBeInstanceOf(ParseError)
+  })
+})
+
+describe('parseRoster', () => {
+  test('reads one login per line, ignoring blanks and comments', () => {
+    const text = '# Platform team\nalice\n\n  bob  # on leave\ncarol\n'
+    expect(parseRoster(text)).toEqual(['alice', 'bob', 'carol'])
+  })
+
+  test('drops duplicates', () => {
+    expect(parseRoster('alice\nbob\nalice\n')).toEqual(['alice', 'bob'])
+  })
+})
+
+describe('readRoster', () => {
+  test('reads and parses a roster file', async () => {
+    const path = join(tmpdir(), `roster-${process.pid}.txt`)
+    await Bun.write(path, 'alice\nbob\n')
+    const result = await readRoster(path)
+    expect(result).toEqual(['alice', 'bob'])
+  })
+
+  test('returns RosterReadError for a missing file', async () => {
+    const result = await readRoster(join(tmpdir(), 'does-not-exist.txt'))
+    expect(result).toBeInstanceOf(RosterReadError)
+  })
+})
+
+describe('fetchMemberUsage', () => {
+  type Item = { grossQuantity: number; model: string }
+  const usageByUser: Record<string, Item[]> = {
+    alice: [
+      { grossQuantity: 40, model: 'gpt-4o' },
+      { grossQuantity: 90, model: 'claude-sonnet-4' },
+    ],
+    bob: [{ grossQuantity: 300, model: 'o3' }],
+    carol: [],
+  }
+
+  async function fetcher(url: string) {
+    const user = new URL(url, 'https://api.github.com').searchParams.get('user')
+    return { usageItems: usageByUser[user ?? ''] ?? [] }
+  }
+
+  test('filters the organization usage by member', async () => {
+    const urls: string[] = []
+    await fetchMemberUsage('acme', ['alice'], FIXED_DATE, async (url) => {
+      urls.push(url)
+      return { usageItems: [] }
+    })
+    expect(urls).toEqual([
+      '/organizations/acme/settings/billing/premium_request/usage?year=2025&month=06&user=alice',
+    ])
+  })
+
+  test('sorts members by usage descending with their top model', async () => {
+    const result = await fetchMemberUsage(
+      'acme',
+      ['carol', 'alice', 'bob'],
+      FIXED_DATE,
+      fetcher,
+    )
+    expect(result).toEqual([
+      { login: 'bob', totalUsage: 300, topModel: 'o3' },
+      { login: 'alice', totalUsage: 130, topModel: 'claude-sonnet-4' },
+      { login: 'carol', totalUsage: 0, topModel: null },
+    ])
+  })
+
+  test('returns FetchError when any member fails', async () => {
+    const result = await fetchMemberUsage(
+      'acme',
+      ['alice', 'bob'],
+      FIXED_DATE,
+      async (url) => {
+        if (url.includes('user=bob')) throw new Error('network error')
+        return { usageItems: [] }
+      },
+    )
+    expect(result).toBeInstanceOf(FetchError)
+  })
+})
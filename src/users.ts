@@ -0,0 +1,124 @@
+import * as errore from 'errore'
+import { z } from 'zod'
+import { mapConcurrent } from './pool.ts'
+import {
+  type BillingPeriod,
+  type Fetcher,
+  FetchError,
+  type InvalidPeriodError,
+  ParseError,
+  fetchUsage,
+  getCurrentPeriod,
+} from './usage.ts'
+
+export type MemberUsage = {
+  login: string
+  totalUsage: number
+  /** Most used model, or null when the member has no usage */
+  topModel: string | null
+}
+
+export class RosterReadError extends errore.createTaggedError({
+  name: 'RosterReadError',
+  message: 'Failed to read roster file "$path"',
+}) {}
+
+const MEMBERS_PAGE_SIZE = 100
+const LEADERBOARD_CONCURRENCY = 4
+
+const membersResponseSchema = z.array(z.object({ login: z.string() }))
+
+export async function fetchOrgMembers(
+  org: string,
+  fetcher: Fetcher,
+): Promise<string[] | FetchError | ParseError> {
+  const logins: string[] = []
+  for (let page = 1; ; page++) {
+    const rawOrError = await fetcher(
+      `/orgs/${org}/members?per_page=${MEMBERS_PAGE_SIZE}&page=${page}`,
+    ).catch((e: unknown) => {
+      const reason = e instanceof Error ? e.message : String(e)
+      return new FetchError({
+        reason,
+        cause: e instanceof Error ? e : undefined,
+      })
+    })
+
+    if (rawOrError instanceof FetchError) return rawOrError
+    const raw: unknown = rawOrError
+
+    const parsed = membersResponseSchema.safeParse(raw)
+    if (!parsed.success) {
+      return new ParseError({
+        reason: `Could not parse members from /orgs/${org}/members response`,
+      })
+    }
+
+    logins.push(...parsed.data.map((member) => member.login))
+    if (parsed.data.length < MEMBERS_PAGE_SIZE) return logins
+  }
+}
+
+/**
+ * Parse a roster file: one login per line, blank lines and `#` comments
+ * are ignored, duplicates are dropped.
+ */
+export function parseRoster(text: string): string[] {
+  const logins = text
+    .split('\n')
+    .map((line) => line.replace(/#.*$/, '').trim())
+    .filter((line) => line.length > 0)
+  return Array.from(new Set(logins))
+}
+
+export async function readRoster(
+  path: string,
+): Promise<string[] | RosterReadError> {
+  const textOrError = await Bun.file(path)
+    .text()
+    .catch((e: unknown) => new RosterReadError({ path, cause: e }))
+  if (textOrError instanceof RosterReadError) return textOrError
+  return parseRoster(textOrError)
+}
+
+/**
+ * Fetch each member's usage through the organization billing endpoint's
+ * `user` filter, sorted by total usage descending.
+ */
+export async function fetchMemberUsage(
+  org: string,
+  logins: string[],
+  now: Date,
+  fetcher: Fetcher,
+  period: BillingPeriod = getCurrentPeriod(now),
+): Promise<MemberUsage[] | FetchError | ParseError | InvalidPeriodError> {
+  const results = await mapConcurrent(
+    logins,
+    LEADERBOARD_CONCURRENCY,
+    (login) =>
+      fetchUsage({ type: 'org', org, user: login }, now, fetcher, period),
+  )
+
+  const members: MemberUsage[] = []
+  for (const [index, result] of results.entries()) {
+    if (result instanceof Error) return result
+
+    let topModel: string | null = null
+    let topCount = 0
+    for (const [model, count] of result.modelCounts) {
+      if (count > topCount) {
+        topModel = model
+        topCount = count
+      }
+    }
+    members.push({
+      login: logins[index]!,
+      totalUsage: result.totalUsage,
+      topModel,
+    })
+  }
+
+  return members.sort(
+    (a, b) => b.totalUsage - a.totalUsage || a.login.localeCompare(b.login),
+  )
+}
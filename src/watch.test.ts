@@ -0,0 +1,269 @@
+import { describe, expect, test } from 'bun:test'
+import type { BillingScope } from './scope.ts'
+import { FIXED_DATE, makeUsageData } from './test-utils.ts'
+import {
+  type Clock,
+  type WatchLimits,
+  type WatchOptions,
+  getModelDeltas,
+  watchUsage,
+} from './watch.ts'
+
+const OCTOCAT: BillingScope = { type: 'user', username: 'octocat' }
+const PRO: WatchLimits = { plan: 'pro', planLabel: 'Pro', limit: 300 }
+
+/** Clock that advances instantly, aborting after `ticks` sleeps */
+function makeFakeClock(controller: AbortController, ticks: number) {
+  let time = FIXED_DATE.getTime()
+  const sleeps: number[] = []
+  const clock: Clock = {
+    now: () => new Date(time),
+    sleep: async (ms) => {
+      sleeps.push(ms)
+      time += ms
+      if (sleeps.length >= ticks) controller.abort()
+    },
+  }
+  return { clock, sleeps }
+}
+
+/** Fetcher serving one usage response per refresh */
+function makeFetcher(responses: { model: string; grossQuantity: number }[][]) {
+  let call = 0
+  return async () => ({ usageItems: responses[call++] ?? [] })
+}
+
+function watch(
+  overrides: Partial<WatchOptions> & Pick<WatchOptions, 'fetcher'>,
+  ticks: number,
+) {
+  const controller = new AbortController()
+  const { clock, sleeps } = makeFakeClock(controller, ticks)
+  const frames: string[] = []
+  const done = watchUsage({
+    scope: OCTOCAT,
+    daily: false,
+    width: 80,
+    interval: 30,
+    color: true,
+    clock,
+    signal: controller.signal,
+    write: (text) => frames.push(text),
+    resolveLimits: async () => PRO,
+    ...overrides,
+  })
+  return { done, frames, sleeps }
+}
+
+describe('watchUsage', () => {
+  test('redraws on every interval until aborted', async () => {
+    const fetcher = makeFetcher([
+      [{ model: 'gpt-4o', grossQuantity: 10 }],
+      [{ model: 'gpt-4o', grossQuantity: 12 }],
+      [{ model: 'gpt-4o', grossQuantity: 15 }],
+    ])
+    const { done, frames, sleeps } = watch({ fetcher }, 3)
+    await done
+
+    expect(sleeps).toEqual([30_000, 30_000, 30_000])
+    // Alternate screen, three frames, restored screen
+    expect(frames).toHaveLength(5)
+    expect(frames[0]).toContain('\x1b[?1049h')
+    expect(frames[4]).toContain('\x1b[?1049l')
+    expect(Bun.stripANSI(frames[1]!)).toContain('Overall:  10/300')
+    expect(Bun.stripANSI(frames[3]!)).toContain('Overall:  15/300')
+  })
+
+  test('stamps each frame with the refresh time', async () => {
+    const fetcher = makeFetcher([[], []])
+    const { done, frames } = watch({ fetcher }, 2)
+    await done
+    expect(Bun.stripANSI(frames[1]!)).toContain('Updated 12:00:00 UTC')
+    expect(Bun.stripANSI(frames[2]!)).toContain('Updated 12:00:30 UTC')
+  })
+
+  test('shows the per-model delta since the previous refresh', async () => {
+    const fetcher = makeFetcher([
+      [
+        { model: 'gpt-4o', grossQuantity: 10 },
+        { model: 'o3', grossQuantity: 4 },
+      ],
+      [
+        { model: 'gpt-4o', grossQuantity: 13 },
+        { model: 'o3', grossQuantity: 4 },
+      ],
+    ])
+    const { done, frames } = watch({ fetcher }, 2)
+    await done
+
+    expect(Bun.stripANSI(frames[1]!)).not.toContain('+')
+    const lines = Bun.stripANSI(frames[2]!).split('\n')
+    const gptLine = lines.find((line) => line.includes('gpt-4o'))
+    const o3Line = lines.find((line) => line.includes('o3'))
+    expect(gptLine).toContain('+3')
+    expect(o3Line).not.toContain('+')
+    for (const line of lines) {
+      expect(Bun.stringWidth(line)).toBeLessThanOrEqual(80)
+    }
+  })
+
+  test('keeps the last frame when a refresh fails', async () => {
+    let call = 0
+    const fetcher = async () => {
+      if (call++ === 1) throw new Error('network error')
+      return { usageItems: [{ model: 'gpt-4o', grossQuantity: 10 }] }
+    }
+    const { done, frames } = watch({ fetcher }, 2)
+    await done
+
+    const failed = Bun.stripANSI(frames[2]!)
+    expect(failed).toContain('Overall:  10/300')
+    expect(failed).toContain(
+      'Refresh failed: Failed to fetch data: network error',
+    )
+  })
+
+  test('reports the usage of every successful refresh', async () => {
+    const fetcher = makeFetcher([
+      [{ model: 'gpt-4o', grossQuantity: 10 }],
+      [{ model: 'gpt-4o', grossQuantity: 12 }],
+    ])
+    const totals: number[] = []
+    const { done } = watch(
+      {
+        fetcher,
+        onRefresh: async (data) => {
+          totals.push(data.totalUsage)
+        },
+      },
+      2,
+    )
+    await done
+    expect(totals).toEqual([10, 12])
+  })
+
+  test('resolves the limits of the period of every refresh', async () => {
+    const fetcher = makeFetcher([
+      [{ model: 'gpt-4o', grossQuantity: 10 }],
+      [{ model: 'gpt-4o', grossQuantity: 12 }],
+    ])
+    const periods: unknown[] = []
+    const limits = [PRO, { plan: 'pro+', planLabel: 'Pro+', limit: 1500 }]
+    const { done, frames } = watch(
+      {
+        fetcher,
+        resolveLimits: async (period) => {
+          periods.push(period)
+          return limits[periods.length - 1]!
+        },
+      },
+      2,
+    )
+    await done
+
+    expect(periods).toEqual([
+      { year: 2025, month: 6 },
+      { year: 2025, month: 6 },
+    ])
+    expect(Bun.stripANSI(frames[1]!)).toContain('Overall:  10/300')
+    expect(Bun.stripANSI(frames[2]!)).toContain('Overall:  12/1500')
+  })
+
+  test('keeps the last frame when the limits cannot be resolved', async () => {
+    let call = 0
+    const { done, frames } = watch(
+      {
+        fetcher: makeFetcher([[], []]),
+        resolveLimits: async () =>
+          call++ === 1 ? new Error('Invalid config file') : PRO,
+      },
+      2,
+    )
+    await done
+    const failed = Bun.stripANSI(frames[2]!)
+    expect(failed).toContain('Overall:  0/300')
+    expect(failed).toContain('Refresh failed: Invalid config file')
+  })
+
+  test('shows the warnings of a refresh below the display', async () => {
+    const fetcher = makeFetcher([[], []])
+    const { done, frames } = watch(
+      {
+        fetcher,
+        onRefresh: async (data, limits) =>
+          frames.length === 1 ? [`hook of ${limits.plan} failed`] : [],
+      },
+      2,
+    )
+    await done
+    expect(Bun.stripANSI(frames[1]!)).toContain('Warning: hook of pro failed')
+    expect(Bun.stripANSI(frames[2]!)).not.toContain('Warning')
+  })
+
+  test('strips the colors but not the cursor moves without color', async () => {
+    const fetcher = makeFetcher([[{ model: 'gpt-4o', grossQuantity: 10 }]])
+    const { done, frames } = watch({ fetcher, color: false }, 1)
+    await done
+    expect(frames[1]).toStartWith('\x1b[H')
+    expect(frames[1]).toEndWith('\x1b[J')
+    expect(frames[1]!.slice(3, -3)).toBe(Bun.stripANSI(frames[1]!.slice(3, -3)))
+  })
+
+  test('restores the screen when the loop throws', async () => {
+    const controller = new AbortController()
+    const frames: string[] = []
+    const clock: Clock = {
+      now: () => FIXED_DATE,
+      sleep: async () => { throw new Error('boom') },
+    }
+    const done = watchUsage({
+      scope: OCTOCAT,
+      daily: false,
+      width: 80,
+      interval: 30,
+      color: true,
+      fetcher: makeFetcher([[]]),
+      clock,
+      signal: controller.signal,
+      write: (text) => frames.push(text),
+      resolveLimits: async () => PRO,
+    })
+    await expect(done).rejects.toThrow('boom')
+    expect(frames.at(-1)).toContain('\x1b[?1049l')
+  })
+})
+
+describe('getModelDeltas', () => {
+  test('only reports models whose count increased', () => {
+    const previous = makeUsageData({
+      modelCounts: new Map([
+        ['gpt-4o', 10],
+        ['o3', 4],
+      ]),
+    })
+    const current = makeUsageData({
+      modelCounts: new Map([
+        ['gpt-4o', 12.5],
+        ['o3', 4],
+        ['claude-sonnet-4', 1],
+      ]),
+    })
+    expect(getModelDeltas(previous, current)).toEqual(
+      new Map([
+        ['gpt-4o', 2.5],
+        ['claude-sonnet-4', 1],
+      ]),
+    )
+  })
+
+  test('starts over when the billing period rolls over', () => {
+    const previous = makeUsageData({
+      modelCounts: new Map([['gpt-4o', 10]]),
+    })
+    const current = makeUsageData({
+      month: '07',
+      modelCounts: new Map([['gpt-4o', 12]]),
+    })
+    expect(getModelDeltas(previous, current).size).toBe(0)
+  })
+})
@@ -0,0 +1,173 @@
+import { styleText } from 'node:util'
+import { type RenderOptions, renderDisplay } from './display.ts'
+import type { BillingScope } from './scope.ts'
+import {
+  type BillingPeriod,
+  type Fetcher,
+  type UsageData,
+  fetchDailyUsage,
+  fetchUsage,
+} from './usage.ts'
+
+/** Time source of the watch loop, faked in tests */
+export type Clock = {
+  now: () => Date
+  /** Resolves after `ms`, or early once `signal` is aborted */
+  sleep: (ms: number, signal: AbortSignal) => Promise<void>
+}
+
+export const systemClock: Clock = {
+  now: () => new Date(),
+  sleep: (ms, signal) =>
+    new Promise((resolve) => {
+      const timeout = setTimeout(resolve, ms)
+      signal.addEventListener(
+        'abort',
+        () => {
+          clearTimeout(timeout)
+          resolve()
+        },
+        { once: true },
+      )
+    }),
+}
+
+/** Plan and limit of a billing period, resolved again on every refresh */
+export type WatchLimits = Pick<
+  RenderOptions,
+  'overagePrice' | 'modelLimits' | 'planSegments'
+> & {
+  /** Key of the plan */
+  plan: string
+  /** Name of the plan in the display */
+  planLabel: string
+  limit: number
+}
+
+export type WatchOptions = Pick<RenderOptions, 'timeZone'> & {
+  scope: BillingScope
+  period?: BillingPeriod
+  daily: boolean
+  width: number
+  /** Seconds between refreshes */
+  interval: number
+  /** Whether to color the screen, the escape codes moving the cursor stay */
+  color: boolean
+  fetcher: Fetcher
+  clock: Clock
+  /** Stops the loop, typically on Ctrl-C */
+  signal: AbortSignal
+  write: (text: string) => void
+  /**
+   * Limits of the refreshed period, which may change with a new billing
+   * cycle or an edited config file
+   */
+  resolveLimits: (period: BillingPeriod) => Promise<WatchLimits | Error>
+  /**
+   * Called with the usage of every successful refresh, returns warnings to
+   * show below the display, as stderr is hidden by the alternate screen
+   */
+  onRefresh?: (data: UsageData, limits: WatchLimits) => Promise<string[] | void>
+}
+
+const ENTER_ALT_SCREEN = '\x1b[?1049h\x1b[?25l'
+const EXIT_ALT_SCREEN = '\x1b[?25h\x1b[?1049l'
+const CURSOR_HOME = '\x1b[H'
+const CLEAR_TO_END = '\x1b[J'
+
+/**
+ * Re-fetch and redraw the usage display in place until `signal` aborts,
+ * on the terminal's alternate screen so the shell's scrollback is left
+ * untouched. A failed refresh keeps the last good frame on screen.
+ */
+export async function watchUsage(options: WatchOptions): Promise<void> {
+  const { clock, signal, write } = options
+  let previous: UsageData | undefined
+  let lastFrame = ''
+
+  write(ENTER_ALT_SCREEN)
+  try {
+    while (!signal.aborted) {
+      const now = clock.now()
+      const refreshed = await loadFrame(options, now)
+      if (signal.aborted) break
+
+      let status: string
+      if (refreshed instanceof Error) {
+        status = styleText('red', `Refresh failed: ${refreshed.message}`)
+      } else {
+        const { data, limits } = refreshed
+        lastFrame = renderDisplay(data, limits.planLabel, limits.limit, {
+          width: options.width,
+          modelDeltas: previous ? getModelDeltas(previous, data) : undefined,
+          overagePrice: limits.overagePrice,
+          modelLimits: limits.modelLimits,
+          planSegments: limits.planSegments,
+          timeZone: options.timeZone,
+        })
+        previous = data
+        const warnings = (await options.onRefresh?.(data, limits)) ?? []
+        for (const warning of warnings) {
+          lastFrame += `\n${styleText('yellow', `Warning: ${warning}`)}`
+        }
+        status = styleText('dim', `Updated ${formatClockTime(now)} UTC`)
+      }
+      status += styleText(
+        'dim',
+        ` • every ${options.interval}s • Ctrl-C to exit`,
+      )
+      let screen = `${lastFrame}\n${status}`
+      if (!options.color) screen = Bun.stripANSI(screen)
+      write(`${CURSOR_HOME}${screen}${CLEAR_TO_END}`)
+
+      await clock.sleep(options.interval * 1000, signal)
+    }
+  } finally {
+    write(EXIT_ALT_SCREEN)
+  }
+}
+
+/**
+ * Increase of each model's count between two refreshes. Counts are only
+ * compared within a billing period, they start over when it rolls over.
+ */
+export function getModelDeltas(
+  previous: UsageData,
+  current: UsageData,
+): Map<string, number> {
+  const deltas = new Map<string, number>()
+  if (previous.year !== current.year || previous.month !== current.month) {
+    return deltas
+  }
+  for (const [model, count] of current.modelCounts) {
+    const delta = count - (previous.modelCounts.get(model) ?? 0)
+    if (delta > 0) deltas.set(model, delta)
+  }
+  return deltas
+}
+
+/** Usage of the refresh with the limits of its billing period */
+async function loadFrame(options: WatchOptions, now: Date) {
+  const data = await loadUsage(options, now)
+  if (data instanceof Error) return data
+  const period = { year: data.year, month: parseInt(data.month, 10) }
+  const limits = await options.resolveLimits(period)
+  if (limits instanceof Error) return limits
+  return { data, limits }
+}
+
+async function loadUsage(options: WatchOptions, now: Date) {
+  const { scope, period, fetcher } = options
+  const [usage, daily] = await Promise.all([
+    fetchUsage(scope, now, fetcher, period),
+    options.daily ? fetchDailyUsage(scope, now, fetcher, period) : undefined,
+  ])
+  if (usage instanceof Error) return usage
+  if (daily instanceof Error) return daily
+  usage.dailyUsage = daily
+  return usage
+}
+
+function formatClockTime(date: Date): string {
+  return date.toISOString().slice(11, 19)
+}